@@ -1,19 +1,46 @@
-import { useState, Suspense, useEffect, useRef } from 'react'
+import { useState, Suspense, useEffect, useRef, useMemo, useCallback } from 'react'
 import { Canvas } from '@react-three/fiber'
 import { OrbitControls } from '@react-three/drei'
 import Tetromino from './components/game/Tetromino'
 import TetrominoShadow from './components/game/TetrominoShadow'
 import TetrominoPreview from './components/game/TetrominoPreview'
 import GameMenu from './components/ui/GameMenu'
+import PlacementToast, { type PlacementFailure } from './components/ui/PlacementToast'
+import ScorePanel from './components/ui/ScorePanel'
+import GameOverScreen from './components/ui/GameOverScreen'
+import TouchControls from './components/ui/TouchControls'
 import AxesHelper from './components/world/AxesHelper'
-import OptimizedBlocks from './components/world/OptimizedBlocks'
+import OptimizedBlocks, { type BoardHit } from './components/world/OptimizedBlocks'
 import CameraControls from './components/world/CameraControls'
+import GamepadControls from './components/world/GamepadControls'
 import Tree from './components/world/Tree'
 import PerformanceStatsDisplay from './components/ui/PerformanceStatsDisplay'
 import Decorations from './components/world/Decorations'
+import CollapsingBlocks from './components/world/CollapsingBlocks'
 import DayNightCycle from './components/game/DayNightCycle'
 import { useGameState } from './hooks/useGameState'
 import { useTreePlacements } from './hooks/useTreePlacements'
+import { useWorldHistory } from './hooks/useWorldHistory'
+import { useSaveSlots } from './hooks/useSaveSlots'
+import { useWorldShare } from './hooks/useWorldShare'
+import { usePlacementHint } from './hooks/usePlacementHint'
+import { useCustomShapes } from './hooks/useCustomShapes'
+import { useTouchControls } from './hooks/useTouchControls'
+import { type SaveWorld, readAutosave } from './utils/saveData'
+import { readWorldFromUrl } from './utils/worldCode'
+import { MATERIALS } from './utils/materials'
+import {
+  type Position,
+  type GameSnapshot,
+  type WorldPresetId,
+  type HintHeuristicId,
+  type CollapseEvent,
+  WORLD_PRESETS,
+  DEFAULT_HINT_HEURISTIC,
+  getBoardCenter,
+  addShapeDefinition,
+  getDemolishedBoard,
+} from './engine'
 import './App.css'
 import { DayNightCycleProvider } from './context/DayNightCycleContext'
 import type { DayNightCycleState } from './context/DayNightCycleContext'
@@ -26,11 +53,19 @@ export default function App() {
   const [isCyclePaused, setIsCyclePaused] = useState(false)
   const [showCyclePath, setShowCyclePath] = useState(false)
   const [cycleState, setCycleState] = useState<DayNightCycleState | null>(null)
+  // A shared ?world= link takes precedence over resuming the autosave
+  const [sharedWorld] = useState(readWorldFromUrl)
+  const [initialWorld] = useState(() => sharedWorld.world ? null : readAutosave())
+  const [hourOverride, setHourOverride] = useState<{ hour: number } | null>(
+    () => initialWorld ? { hour: initialWorld.hour } : null
+  )
   const {
     queue,
     activeTetromino,
     droppingTetromino,
     boardState,
+    water,
+    highestY,
     selectedIndex,
     boardSize,
     selectTetromino,
@@ -38,21 +73,152 @@ export default function App() {
     rotateTetromino,
     dropTetromino,
     completeDrop,
+    queueGenerator,
+    setQueueGenerator,
+    customShapes,
+    addCustomShape,
+    heldPiece,
+    canHold,
+    discardCharge,
+    canDiscard,
+    score,
+    scoreTotal,
+    lastScoreEvent,
+    lastCollapse,
+    validMoveCount,
+    gameOver,
+    holdTetromino,
+    discardTetromino,
+    canDemolish,
+    demolishBlock,
+    reorderQueue,
+    snapshot,
+    restoreSnapshot,
+    startNewWorld,
     calculateLandingY,
     getTetrominoBlockPositions,
-    currentLandingIsValid,
-  } = useGameState()
+    currentLanding,
+  } = useGameState(sharedWorld.world ?? initialWorld)
+
+  // Shapes drawn in the shape editor join the game state
+  const { error: shapeError, addShape } = useCustomShapes(customShapes, addCustomShape)
+
+  // Queue slot the gamepad bumpers browse to, picked with A between turns
+  const [gamepadCursor, setGamepadCursor] = useState<number | null>(null)
 
   // State for shake animation on invalid drop
   const [shadowShake, setShadowShake] = useState(false)
+  // Last rejected drop, explained in a HUD toast
+  const [placementFailure, setPlacementFailure] = useState<PlacementFailure | null>(null)
+  const dismissPlacementFailure = useCallback(() => setPlacementFailure(null), [])
+
+  // Suggested placement for the active tetromino, previewed as a ghost
+  const [showHint, setShowHint] = useState(false)
+  const [hintHeuristic, setHintHeuristic] = useState<HintHeuristicId>(DEFAULT_HINT_HEURISTIC)
+  const toggleHint = useCallback(() => setShowHint((shown) => !shown), [])
+  const hint = usePlacementHint(
+    { ...snapshot, score },
+    activeTetromino?.type ?? null,
+    showHint ? hintHeuristic : null
+  )
 
   // Procedural tree generation
-  const { treePlacements, addTreesForTetromino, removeTreesUnderTetromino, removeTree } = useTreePlacements(
-    boardSize,
+  const {
+    treePlacements,
+    addTreesForTetromino,
+    removeTreesUnderTetromino,
+    removeTreesUnderBlocks,
+    regrowTreesOnBlocks,
+    removeTree,
+    restoreTreePlacements,
+    regenerateTreePlacements,
+  } = useTreePlacements(
     boardState,
-    getTetrominoBlockPositions
+    getTetrominoBlockPositions,
+    snapshot.seed,
+    initialWorld?.trees.map((tree) => ({ ...tree, removing: false }))
+  )
+
+  // Undo/redo of placed tetrominoes (board, queue and trees)
+  const { record: recordHistory, undo, redo } = useWorldHistory({
+    snapshot,
+    treePlacements,
+    isDropping: droppingTetromino !== null,
+    restoreSnapshot,
+    restoreTreePlacements,
+  })
+
+  // Save slots and autosave (board, queue, trees, time of day and custom shapes)
+  const currentTrees = useMemo(
+    () => treePlacements.filter((tree) => !tree.removing),
+    [treePlacements]
+  )
+  const saveWorld = useMemo<SaveWorld>(() => ({
+    ...snapshot,
+    trees: currentTrees,
+    hour: cycleState?.hour ?? 8,
+  }), [snapshot, currentTrees, cycleState?.hour])
+
+  const handleLoadWorld = useCallback((world: SaveWorld) => {
+    // Loading a save can be undone like a placement
+    recordHistory()
+    restoreSnapshot(world)
+    restoreTreePlacements(
+      world.trees.map((tree) => ({ ...tree, removing: false })),
+      world.boardState
+    )
+    setHourOverride({ hour: world.hour })
+  }, [recordHistory, restoreSnapshot, restoreTreePlacements])
+
+  const {
+    slots: saveSlots,
+    error: saveError,
+    save,
+    load,
+    remove: removeSave,
+  } = useSaveSlots({
+    world: saveWorld,
+    canLoad: droppingTetromino === null,
+    onLoad: handleLoadWorld,
+  })
+
+  // Share codes: imported worlds get freshly generated trees
+  // and their custom shapes join the ones drawn here
+  const handleImportWorld = useCallback((world: GameSnapshot) => {
+    recordHistory()
+    restoreSnapshot({ ...world, customShapes: world.customShapes.reduce(addShapeDefinition, customShapes) })
+    regenerateTreePlacements(world.boardState, world.seed)
+  }, [recordHistory, restoreSnapshot, regenerateTreePlacements, customShapes])
+
+  // Starting a new world can be undone too
+  const handleNewWorld = useCallback((preset: WorldPresetId) => {
+    if (droppingTetromino !== null) return
+    recordHistory()
+    const world = startNewWorld(WORLD_PRESETS[preset].config)
+    regenerateTreePlacements(world.boardState, world.seed)
+  }, [droppingTetromino, recordHistory, startNewWorld, regenerateTreePlacements])
+
+  const boardCenter = useMemo(() => getBoardCenter(boardSize), [boardSize])
+
+  // Blocks the player placed (everything above the ground)
+  const placedBlockCount = useMemo(
+    () => Array.from(boardState.keys()).filter((key) => Number(key.split(',')[1]) > 0).length,
+    [boardState]
   )
 
+  const {
+    error: shareError,
+    notice: shareNotice,
+    copyCode,
+    copyLink,
+    importCode,
+  } = useWorldShare({
+    world: snapshot,
+    canImport: droppingTetromino === null,
+    onImport: handleImportWorld,
+    initialError: sharedWorld.error,
+  })
+
   // Track previous droppingTetromino to detect when drop completes
   const prevDroppingTetrominoRef = useRef(droppingTetromino)
   
@@ -69,8 +235,13 @@ export default function App() {
         completed.rotation
       )
       
+      // Blocks that gave way take the trees on them, and the ones they landed on, with them
+      if (lastCollapse) {
+        removeTreesUnderBlocks(lastCollapse.blocks.flatMap(({ from, to }) => (to ? [from, to] : [from])))
+      }
+      
       // Then, add trees for grass tetrominos
-      if (completed.material === 'grass') {
+      if (MATERIALS[completed.material].growsTrees) {
         addTreesForTetromino(
           completed.type,
           completed.endPosition,
@@ -80,7 +251,19 @@ export default function App() {
       }
     }
     prevDroppingTetrominoRef.current = droppingTetromino
-  }, [droppingTetromino, addTreesForTetromino, removeTreesUnderTetromino])
+  }, [droppingTetromino, lastCollapse, addTreesForTetromino, removeTreesUnderTetromino, removeTreesUnderBlocks])
+
+  // Blocks that gave way after the last drop animate into place; their landing cells stay hidden until then
+  const [settledCollapse, setSettledCollapse] = useState<CollapseEvent | null>(null)
+  const activeCollapse = lastCollapse !== settledCollapse ? lastCollapse : null
+  const renderedBoardState = useMemo(() => {
+    if (!activeCollapse) return boardState
+    const rendered = new Map(boardState)
+    activeCollapse.blocks.forEach(({ to }) => {
+      if (to) rendered.delete(to.join(','))
+    })
+    return rendered
+  }, [boardState, activeCollapse])
 
   // Calculate landing Y for shadow
   const landingY = activeTetromino
@@ -93,22 +276,123 @@ export default function App() {
 
   // Handle drop with validation and shake
   const handleDropTetromino = () => {
-    const success = dropTetromino()
-    if (!success) {
-      // Invalid drop - trigger shake animation
+    const result = dropTetromino()
+    if (result.valid) {
+      // Record the world as it was before this drop so it can be undone
+      recordHistory()
+      setPlacementFailure(null)
+    } else {
+      // Invalid drop - trigger shake animation and explain which rule was broken
       setShadowShake(true)
       setTimeout(() => setShadowShake(false), 1000) // Reset after animation
+      setPlacementFailure({ reason: result.reason, blocks: result.blocks })
     }
   }
 
+  // Holds and discards change the queue and charge, so they are undone one step at a time like drops
+  const handleHoldTetromino = useCallback(() => {
+    if (!canHold) return
+    recordHistory()
+    holdTetromino()
+  }, [canHold, recordHistory, holdTetromino])
+
+  const handleDiscardTetromino = useCallback((index: number) => {
+    if (!canDiscard || index >= queue.length) return
+    recordHistory()
+    discardTetromino(index)
+  }, [canDiscard, queue.length, recordHistory, discardTetromino])
+
+  // Demolition mode: clicking a block removes it instead of orbiting past it
+  const [demolishMode, setDemolishMode] = useState(false)
+  const toggleDemolishMode = useCallback(() => setDemolishMode((active) => !active), [])
+
+  const handleDemolishBlock = useCallback((position: Position) => {
+    const result = demolishBlock(position)
+    if (result.valid) {
+      recordHistory()
+      setPlacementFailure(null)
+      // Trees on the block go with it, the block below can grow new ones unless sand settled onto it
+      const [x, y, z] = position
+      removeTreesUnderBlocks([position])
+      if (!getDemolishedBoard(boardState, position).has(position.join(','))) {
+        regrowTreesOnBlocks([[x, y - 1, z]])
+      }
+    } else {
+      setPlacementFailure({ reason: result.reason, blocks: result.blocks })
+    }
+  }, [demolishBlock, recordHistory, removeTreesUnderBlocks, regrowTreesOnBlocks, boardState])
+
+  // Touch: two-finger twist rotates, one finger orbits only while the orbit modifier is on
+  const {
+    bind: bindTouchGestures,
+    isTouch,
+    isOrbiting,
+    toggleOrbiting,
+    isBoardLocked,
+  } = useTouchControls(rotateTetromino)
+
+  // Mouse placement: the active tetromino follows the pointed cell and a click on that cell drops it
+  // Touch goes through here too: dragging a finger moves the piece and tapping drops it
+  const handleBlockHover = (hit: BoardHit) => {
+    if (demolishMode || isBoardLocked || !activeTetromino) return
+    const deltaX = hit.cell[0] - activeTetromino.position[0]
+    const deltaZ = hit.cell[2] - activeTetromino.position[2]
+    if (deltaX !== 0 || deltaZ !== 0) {
+      moveTetromino(deltaX, deltaZ)
+    }
+  }
+
+  const handleBlockClick = (hit: BoardHit) => {
+    if (demolishMode) {
+      handleDemolishBlock(hit.block)
+      return
+    }
+    if (isBoardLocked || !activeTetromino) return
+    if (hit.cell[0] === activeTetromino.position[0] && hit.cell[2] === activeTetromino.position[2]) {
+      handleDropTetromino()
+    } else {
+      // The piece isn't over that cell yet (it couldn't follow the pointer), so only move it
+      handleBlockHover(hit)
+    }
+  }
+
+  // Right-click rotates: Shift tips the piece forward, Alt sideways
+  const handleBlockContextMenu = (_hit: BoardHit, event: MouseEvent) => {
+    if (demolishMode || !activeTetromino) return
+    rotateTetromino(event.shiftKey ? 'pitch' : event.altKey ? 'roll' : 'yaw')
+  }
+
   return (
     <>
       <PerformanceStatsDisplay />
+      <PlacementToast failure={placementFailure} onDismiss={dismissPlacementFailure} />
+      <ScorePanel score={score} total={scoreTotal} lastEvent={lastScoreEvent} />
+      {gameOver && (
+        <GameOverScreen
+          score={score}
+          total={scoreTotal}
+          blockCount={placedBlockCount}
+          highestY={highestY}
+          onUndo={undo}
+          onNewWorld={handleNewWorld}
+        />
+      )}
       <TetrominoPreview
         queue={queue}
         selectedIndex={selectedIndex}
         onSelect={selectTetromino}
+        heldPiece={heldPiece}
+        canHold={canHold}
+        onHold={handleHoldTetromino}
+        discardCharge={discardCharge}
+        canDiscard={canDiscard}
+        onDiscard={handleDiscardTetromino}
+        onReorder={reorderQueue}
+        validMoveCount={validMoveCount}
+        customShapes={customShapes}
+        focusedIndex={activeTetromino ? null : gamepadCursor}
       />
+      {isTouch && <TouchControls isOrbiting={isOrbiting} onToggleOrbiting={toggleOrbiting} />}
       <GameMenu
         showWireframe={showWireframe}
         onToggleWireframe={() => setShowWireframe(!showWireframe)}
@@ -121,101 +405,170 @@ export default function App() {
         showCyclePath={showCyclePath}
         onToggleCyclePath={() => setShowCyclePath(!showCyclePath)}
         cycleHour={cycleState?.hour ?? 12}
+        queueGenerator={queueGenerator}
+        onQueueGeneratorChange={setQueueGenerator}
+        showHint={showHint}
+        onToggleHint={toggleHint}
+        hintHeuristic={hintHeuristic}
+        onHintHeuristicChange={setHintHeuristic}
+        demolishMode={demolishMode}
+        canDemolish={canDemolish}
+        onToggleDemolish={toggleDemolishMode}
+        onNewWorld={handleNewWorld}
+        customShapes={customShapes}
+        shapeError={shapeError}
+        onCreateShape={addShape}
+        saveSlots={saveSlots}
+        saveError={saveError}
+        onSave={save}
+        onLoadSave={load}
+        onDeleteSave={removeSave}
+        worldSeed={snapshot.seed}
+        shareError={shareError}
+        shareNotice={shareNotice}
+        onCopyWorldCode={copyCode}
+        onCopyWorldLink={copyLink}
+        onImportWorld={importCode}
       />
-      <Canvas flat dpr={[1, 2]} shadows camera={{ fov: 25, position: [12, 12, 12] }}>
-        <DayNightCycleProvider
-          speedMultiplier={cycleSpeed}
-          isPaused={isCyclePaused}
-          onStateChange={setCycleState}
-        >
-          <DynamicSkyColor />
-          <DayNightCycle 
-            radius={10} 
-            height={8} 
-            showPath={showCyclePath}
-          />
-          {/* @ts-ignore - OrbitControls works without required props */}
-          <OrbitControls 
-            zoomSpeed={0.6} 
-            minDistance={3} 
-            maxDistance={80}
-            target={[1, 0, 1]}
-          />
-          <CameraControls
-            activeTetromino={activeTetromino}
-            moveTetromino={moveTetromino}
-            rotateTetromino={rotateTetromino}
-            dropTetromino={handleDropTetromino}
-          />
-          <group position-y={-0.75} dispose={null}>
-            <Suspense fallback={null}>
-              {/* Procedurally generated trees */}
-              {treePlacements.map((placement) => (
-                <Tree
-                  key={placement.id}
-                  treeId={placement.treeId}
-                  position={placement.position}
-                  swayOffset={placement.swayOffset}
-                  rotation={placement.rotation}
-                  removing={placement.removing}
-                  onRemoveComplete={() => removeTree(placement.id)}
-                />
-              ))}
-            </Suspense>
-            {showAxes && <AxesHelper />}
-            <OptimizedBlocks 
-              boardState={boardState} 
-              wireframe={showWireframe} 
+      <div {...bindTouchGestures()} style={{ width: '100%', height: '100%', touchAction: 'none' }}>
+        <Canvas flat dpr={[1, 2]} shadows camera={{ fov: 25, position: [12, 12, 12] }}>
+          <DayNightCycleProvider
+            speedMultiplier={cycleSpeed}
+            isPaused={isCyclePaused}
+            onStateChange={setCycleState}
+            hourOverride={hourOverride}
+          >
+            <DynamicSkyColor />
+            <DayNightCycle 
+              radius={10} 
+              height={8} 
+              showPath={showCyclePath}
             />
-            <Suspense fallback={null}>
-              <Decorations boardState={boardState} />
-            </Suspense>
-          {activeTetromino && (
-            <>
-              <Tetromino
-                type={activeTetromino.type}
-                position={activeTetromino.position}
-                rotation={activeTetromino.rotation}
-                material={activeTetromino.material}
-                wireframe={showWireframe}
-              />
-              <TetrominoShadow
-                type={activeTetromino.type}
-                position={activeTetromino.position}
-                rotation={activeTetromino.rotation}
-                landingY={landingY}
-                isValid={currentLandingIsValid}
-                shake={shadowShake}
+            {/* @ts-ignore - OrbitControls works without required props */}
+            <OrbitControls 
+              zoomSpeed={0.6} 
+              minDistance={3} 
+              maxDistance={80}
+              target={boardCenter}
+              makeDefault
+              // On touch one finger moves the piece, unless orbiting; two fingers still pinch to zoom
+              enableRotate={!isTouch || isOrbiting}
+              enablePan={!isTouch}
+            />
+            <CameraControls
+              activeTetromino={activeTetromino}
+              moveTetromino={moveTetromino}
+              rotateTetromino={rotateTetromino}
+              dropTetromino={handleDropTetromino}
+              holdTetromino={handleHoldTetromino}
+              toggleHint={toggleHint}
+              toggleDemolish={toggleDemolishMode}
+              undo={undo}
+              redo={redo}
+            />
+            <GamepadControls
+              activeTetromino={activeTetromino}
+              moveTetromino={moveTetromino}
+              rotateTetromino={rotateTetromino}
+              dropTetromino={handleDropTetromino}
+              holdTetromino={handleHoldTetromino}
+              queueLength={queue.length}
+              queueCursor={gamepadCursor}
+              onQueueCursorChange={setGamepadCursor}
+              selectTetromino={selectTetromino}
+            />
+            <group position-y={-0.75} dispose={null}>
+              <Suspense fallback={null}>
+                {/* Procedurally generated trees */}
+                {treePlacements.map((placement) => (
+                  <Tree
+                    key={placement.id}
+                    treeId={placement.treeId}
+                    position={placement.position}
+                    swayOffset={placement.swayOffset}
+                    rotation={placement.rotation}
+                    removing={placement.removing}
+                    onRemoveComplete={() => removeTree(placement.id)}
+                  />
+                ))}
+              </Suspense>
+              {showAxes && <AxesHelper />}
+              <OptimizedBlocks 
+                boardState={renderedBoardState} 
+                water={water}
+                boardSize={boardSize}
+                wireframe={showWireframe} 
+                onBlockHover={handleBlockHover}
+                onBlockClick={handleBlockClick}
+                onBlockContextMenu={handleBlockContextMenu}
               />
-            </>
-          )}
-            {droppingTetromino && (
+              {activeCollapse && (
+                <CollapsingBlocks
+                  collapse={activeCollapse}
+                  wireframe={showWireframe}
+                  onComplete={setSettledCollapse}
+                />
+              )}
+              <Suspense fallback={null}>
+                <Decorations boardState={boardState} water={water} seed={snapshot.seed} />
+              </Suspense>
+            {activeTetromino && (
               <>
                 <Tetromino
-                  key={`dropping-${droppingTetromino.startPosition[0]}-${droppingTetromino.startPosition[1]}-${droppingTetromino.startPosition[2]}`}
-                  type={droppingTetromino.type}
-                  position={droppingTetromino.startPosition}
-                  rotation={droppingTetromino.rotation}
-                  material={droppingTetromino.material}
+                  type={activeTetromino.type}
+                  position={activeTetromino.position}
+                  rotation={activeTetromino.rotation}
+                  material={activeTetromino.material}
                   wireframe={showWireframe}
-                  animated={true}
-                  targetPosition={droppingTetromino.endPosition}
-                  onAnimationComplete={completeDrop}
                 />
                 <TetrominoShadow
-                  type={droppingTetromino.type}
-                  position={droppingTetromino.startPosition}
-                  rotation={droppingTetromino.rotation}
-                  landingY={droppingTetromino.endPosition[1]}
-                  isDropping={true}
-                  startY={droppingTetromino.startPosition[1]}
-                  isValid={true}
+                  type={activeTetromino.type}
+                  position={activeTetromino.position}
+                  rotation={activeTetromino.rotation}
+                  landingY={landingY}
+                  isValid={currentLanding.valid}
+                  verdicts={currentLanding.verdicts}
+                  shake={shadowShake}
                 />
+                {hint && (
+                  <TetrominoShadow
+                    type={hint.type}
+                    position={hint.position}
+                    rotation={hint.rotation}
+                    landingY={hint.position[1]}
+                    ghost
+                  />
+                )}
               </>
             )}
-          </group>
-        </DayNightCycleProvider>
-      </Canvas>
+              {droppingTetromino && (
+                <>
+                  <Tetromino
+                    key={`dropping-${droppingTetromino.startPosition[0]}-${droppingTetromino.startPosition[1]}-${droppingTetromino.startPosition[2]}`}
+                    type={droppingTetromino.type}
+                    position={droppingTetromino.startPosition}
+                    rotation={droppingTetromino.rotation}
+                    material={droppingTetromino.material}
+                    wireframe={showWireframe}
+                    animated={true}
+                    targetPosition={droppingTetromino.endPosition}
+                    onAnimationComplete={completeDrop}
+                  />
+                  <TetrominoShadow
+                    type={droppingTetromino.type}
+                    position={droppingTetromino.startPosition}
+                    rotation={droppingTetromino.rotation}
+                    landingY={droppingTetromino.endPosition[1]}
+                    isDropping={true}
+                    startY={droppingTetromino.startPosition[1]}
+                    isValid={true}
+                  />
+                </>
+              )}
+            </group>
+          </DayNightCycleProvider>
+        </Canvas>
+      </div>
     </>
   )
 }
@@ -1,18 +1,30 @@
+import { useState } from 'react'
 import { Canvas } from '@react-three/fiber'
-import Tetromino, { type TetrominoType } from './Tetromino'
+import Tetromino from './Tetromino'
+import { type TetrominoType, type ShapeDefinition, getShapeLabel } from '../../engine/shapes'
+import { DISCARD_COST, MAX_DISCARD_CHARGE } from '../../engine/queue'
 import { type MaterialType } from '../../utils/materials'
+import { useCompactLayout } from '../../hooks/useCompactLayout'
+
+// Side of a preview canvas, in pixels
+const PREVIEW_SIZE = 60
+const COMPACT_PREVIEW_SIZE = 40
 
 interface MiniTetrominoProps {
   type: TetrominoType
   material: MaterialType
+  customShapes: ShapeDefinition[]
   isSelected?: boolean
+  isFocused?: boolean // Under the gamepad cursor
   onClick?: () => void
+  size?: number
 }
 
-function MiniTetromino({ type, material, isSelected = false, onClick }: MiniTetrominoProps) {
+function MiniTetromino({ type, material, customShapes, isSelected = false, isFocused = false, onClick, size = PREVIEW_SIZE }: MiniTetrominoProps) {
   return (
     <div
       onClick={onClick}
+      title={getShapeLabel(type, customShapes)}
       style={{
         cursor: onClick ? 'pointer' : 'default',
         opacity: isSelected ? 1 : 0.6,
@@ -21,11 +33,12 @@ function MiniTetromino({ type, material, isSelected = false, onClick }: MiniTetr
         border: isSelected ? '2px solid #4a90e2' : '2px solid transparent',
         borderRadius: '4px',
         padding: '4px',
+        outline: isFocused ? '2px dashed #ffd54f' : 'none',
       }}
     >
       <Canvas
         camera={{ position: [3, 5, 3], fov: 50 }}
-        style={{ width: '60px', height: '60px' }}
+        style={{ width: `${size}px`, height: `${size}px` }}
       >
         <directionalLight position={[2, 6, 2]} intensity={0.9} />
         <Tetromino type={type} position={[0, 0, 0]} material={material} />
@@ -34,46 +47,179 @@ function MiniTetromino({ type, material, isSelected = false, onClick }: MiniTetr
   )
 }
 
+const smallButtonStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '1px 6px',
+  fontSize: '10px',
+  marginTop: '4px',
+}
+
 interface TetrominoPreviewProps {
   queue: Array<{ type: TetrominoType; material: MaterialType }>
   selectedIndex: number | null
   onSelect: (index: number) => void
+  heldPiece: { type: TetrominoType; material: MaterialType } | null
+  canHold: boolean
+  onHold: () => void
+  discardCharge: number
+  canDiscard: boolean
+  onDiscard: (index: number) => void
+  onReorder: (from: number, to: number) => void
+  // Valid landings left for the pieces in play (null while they are being counted)
+  validMoveCount: number | null
+  // Names for the custom shapes in the queue
+  customShapes: ShapeDefinition[]
+  // Queue slot under the gamepad cursor, if shown
+  focusedIndex?: number | null
 }
 
-export default function TetrominoPreview({ queue, selectedIndex, onSelect }: TetrominoPreviewProps) {
+export default function TetrominoPreview({
+  queue,
+  selectedIndex,
+  onSelect,
+  heldPiece,
+  canHold,
+  onHold,
+  discardCharge,
+  canDiscard,
+  onDiscard,
+  onReorder,
+  validMoveCount,
+  customShapes,
+  focusedIndex = null,
+}: TetrominoPreviewProps) {
+  // Queue slot being dragged to reorder
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  // Small screens get smaller previews without shape names, scrolling sideways if they still don't fit
+  const isCompact = useCompactLayout()
+  const previewSize = isCompact ? COMPACT_PREVIEW_SIZE : PREVIEW_SIZE
+
   return (
     <div style={{
       position: 'absolute',
-      top: '20px',
+      top: isCompact ? '8px' : '20px',
       left: '50%',
       transform: 'translateX(-50%)',
       display: 'flex',
-      gap: '10px',
+      gap: isCompact ? '4px' : '10px',
       zIndex: 1000,
       backgroundColor: 'rgba(26, 26, 46, 0.8)',
-      padding: '10px 20px',
+      padding: isCompact ? '6px 8px' : '10px 20px',
       borderRadius: '8px',
       border: '1px solid rgba(255, 255, 255, 0.1)',
+      maxWidth: 'calc(100vw - 16px)',
+      overflowX: 'auto',
+      boxSizing: 'border-box',
     }}>
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          paddingRight: '10px',
+          borderRight: '1px solid rgba(255, 255, 255, 0.1)',
+        }}
+      >
+        {heldPiece ? (
+          <MiniTetromino
+            type={heldPiece.type}
+            material={heldPiece.material}
+            customShapes={customShapes}
+            isSelected={canHold}
+            onClick={canHold ? onHold : undefined}
+            size={previewSize}
+          />
+        ) : (
+          <div
+            onClick={canHold ? onHold : undefined}
+            style={{
+              width: `${previewSize}px`,
+              height: `${previewSize}px`,
+              margin: '6px',
+              border: '2px dashed rgba(255, 255, 255, 0.2)',
+              borderRadius: '4px',
+              cursor: canHold ? 'pointer' : 'default',
+            }}
+          />
+        )}
+        <span style={{
+          color: '#fff',
+          fontSize: '12px',
+          marginTop: '4px',
+          fontWeight: 'bold'
+        }}>
+          HOLD (C)
+        </span>
+      </div>
       {queue.map((item, index) => (
-        <div key={`${item.type}-${index}`} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+        <div
+          key={`${item.type}-${index}`}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragEnd={() => setDragIndex(null)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => {
+            if (dragIndex !== null) onReorder(dragIndex, index)
+            setDragIndex(null)
+          }}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            opacity: dragIndex === index ? 0.4 : 1,
+          }}
+        >
           <MiniTetromino
             type={item.type}
             material={item.material}
+            customShapes={customShapes}
             isSelected={selectedIndex === index}
+            isFocused={focusedIndex === index}
             onClick={() => onSelect(index)}
+            size={previewSize}
           />
-          <span style={{ 
-            color: '#fff', 
-            fontSize: '12px', 
-            marginTop: '4px',
-            fontWeight: 'bold'
-          }}>
-            {item.type}
-          </span>
+          {!isCompact && (
+            <span style={{ 
+              color: '#fff', 
+              fontSize: '12px', 
+              marginTop: '4px',
+              fontWeight: 'bold'
+            }}>
+              {getShapeLabel(item.type, customShapes)}
+            </span>
+          )}
+          <button
+            onClick={() => onDiscard(index)}
+            disabled={!canDiscard}
+            title={`Costs ${DISCARD_COST} discard charge`}
+            style={{
+              ...smallButtonStyle,
+              cursor: canDiscard ? 'pointer' : 'default',
+              opacity: canDiscard ? 1 : 0.4,
+            }}
+          >
+            Discard
+          </button>
         </div>
       ))}
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center',
+        gap: '4px',
+        paddingLeft: '10px',
+        borderLeft: '1px solid rgba(255, 255, 255, 0.1)',
+        color: 'rgba(255, 255, 255, 0.85)',
+        fontSize: '12px',
+      }}>
+        <span>{`Charge ${discardCharge}/${MAX_DISCARD_CHARGE}`}</span>
+        <span style={{ color: validMoveCount === 0 ? '#ff6663' : undefined }}>
+          {`Moves ${validMoveCount ?? '…'}`}
+        </span>
+      </div>
     </div>
   )
 }
-
@@ -1,17 +1,34 @@
 import { useSpring, a, useSpringRef } from '@react-spring/three'
 import { useEffect } from 'react'
 import * as THREE from 'three'
-import { type TetrominoType, getRotatedPositions } from './Tetromino'
+import { type TetrominoType, getRotatedPositions } from '../../engine/shapes'
+import { type Position, type Rotation, type BlockVerdict } from '../../engine/types'
+
+// Shadow tint per block verdict
+const VERDICT_COLORS: Record<BlockVerdict, string> = {
+  valid: '#ffffff',
+  blocked: '#ff0000',
+  unsupported: '#ffa726', // Orange
+  wrongMaterialBelow: '#ff0000',
+  outOfRange: '#b388ff', // Purple
+}
+
+// Tint of a suggested placement (hints)
+const GHOST_COLOR = '#4fc3f7'
 
 interface TetrominoShadowProps {
   type: TetrominoType
   position: [number, number, number]
-  rotation: 0 | 90 | 180 | 270
+  rotation: Rotation
   landingY: number
   isDropping?: boolean
   startY?: number
   isValid?: boolean
+  // Per-block rule verdicts, in the same order as the shape's blocks
+  verdicts?: BlockVerdict[]
   shake?: boolean
+  // Draw as a hint ghost instead of the landing preview
+  ghost?: boolean
 }
 
 export default function TetrominoShadow({ 
@@ -22,7 +39,9 @@ export default function TetrominoShadow({
   isDropping = false,
   startY,
   isValid = true,
+  verdicts,
   shake = false,
+  ghost = false,
 }: TetrominoShadowProps) {
   const blockPositions = getRotatedPositions(type, rotation)
   
@@ -61,31 +80,37 @@ export default function TetrominoShadow({
     }
   }, [shake, shakeApi])
   
-  // Determine shadow color based on validity
-  const shadowColor = isValid ? '#ffffff' : '#ff0000'
+  // Determine shadow color based on validity (per block when verdicts are known)
+  const getShadowColor = (index: number) => {
+    if (ghost) return GHOST_COLOR
+    const verdict = verdicts?.[index]
+    if (verdict) return VERDICT_COLORS[verdict]
+    return isValid ? '#ffffff' : '#ff0000'
+  }
   
   return (
     <a.group position-x={shakeSpring.x} position-z={shakeSpring.z}>
-      {blockPositions.map((blockPos, index) => (
-        <mesh
-          key={index}
-          position={[
-            position[0] + blockPos[0],
-            landingY + blockPos[1],
-            position[2] + blockPos[2],
-          ]}
-        >
-          <boxGeometry args={[1, 1, 1]} />
-          {/* @ts-ignore - react-spring animated material type issue */}
-          <a.meshStandardMaterial
-            color={shadowColor}
-            opacity={shadowSpring.opacity}
-            transparent
-            emissive={new THREE.Color(shadowColor)}
-            emissiveIntensity={0.1}
-          />
-        </mesh>
-      ))}
+      {blockPositions.map((blockPos, index) => {
+        const worldPos: Position = [
+          position[0] + blockPos[0],
+          landingY + blockPos[1],
+          position[2] + blockPos[2],
+        ]
+        const shadowColor = getShadowColor(index)
+        return (
+          <mesh key={index} position={worldPos}>
+            <boxGeometry args={[1, 1, 1]} />
+            {/* @ts-ignore - react-spring animated material type issue */}
+            <a.meshStandardMaterial
+              color={shadowColor}
+              opacity={shadowSpring.opacity}
+              transparent
+              emissive={new THREE.Color(shadowColor)}
+              emissiveIntensity={0.1}
+            />
+          </mesh>
+        )
+      })}
     </a.group>
   )
 }
@@ -1,3 +1,23 @@
+import { useState } from 'react'
+import SavePanel from './SavePanel'
+import SharePanel from './SharePanel'
+import NewWorldPanel from './NewWorldPanel'
+import ShapeEditorPanel from './ShapeEditorPanel'
+import { type SaveSlotInfo } from '../../utils/saveData'
+import { type MaterialType } from '../../utils/materials'
+import { useCompactLayout } from '../../hooks/useCompactLayout'
+import {
+  type QueueGeneratorId,
+  type WorldPresetId,
+  type HintHeuristicId,
+  type ShapeDefinition,
+  DEMOLISH_COST,
+  QUEUE_GENERATORS,
+  QUEUE_GENERATOR_IDS,
+  HINT_HEURISTICS,
+  HINT_HEURISTIC_IDS,
+} from '../../engine'
+
 interface GameMenuProps {
   showWireframe: boolean
   onToggleWireframe: () => void
@@ -10,6 +30,30 @@ interface GameMenuProps {
   showCyclePath: boolean
   onToggleCyclePath: () => void
   cycleHour: number
+  queueGenerator: QueueGeneratorId
+  onQueueGeneratorChange: (generator: QueueGeneratorId) => void
+  showHint: boolean
+  onToggleHint: () => void
+  hintHeuristic: HintHeuristicId
+  onHintHeuristicChange: (heuristic: HintHeuristicId) => void
+  demolishMode: boolean
+  canDemolish: boolean
+  onToggleDemolish: () => void
+  onNewWorld: (preset: WorldPresetId) => void
+  customShapes: ShapeDefinition[]
+  shapeError: string | null
+  onCreateShape: (label: string, material: MaterialType, cells: Array<[number, number]>) => boolean
+  saveSlots: SaveSlotInfo[]
+  saveError: string | null
+  onSave: (name: string) => void
+  onLoadSave: (slotId: string) => void
+  onDeleteSave: (slotId: string) => void
+  worldSeed: number
+  shareError: string | null
+  shareNotice: string | null
+  onCopyWorldCode: () => void
+  onCopyWorldLink: () => void
+  onImportWorld: (code: string) => boolean
 }
 
 export default function GameMenu({ 
@@ -24,145 +68,300 @@ export default function GameMenu({
   showCyclePath,
   onToggleCyclePath,
   cycleHour,
+  queueGenerator,
+  onQueueGeneratorChange,
+  showHint,
+  onToggleHint,
+  hintHeuristic,
+  onHintHeuristicChange,
+  demolishMode,
+  canDemolish,
+  onToggleDemolish,
+  onNewWorld,
+  customShapes,
+  shapeError,
+  onCreateShape,
+  saveSlots,
+  saveError,
+  onSave,
+  onLoadSave,
+  onDeleteSave,
+  worldSeed,
+  shareError,
+  shareNotice,
+  onCopyWorldCode,
+  onCopyWorldLink,
+  onImportWorld,
 }: GameMenuProps) {
   const hours = Math.floor(cycleHour) % 24
   const minutes = Math.floor((cycleHour - Math.floor(cycleHour)) * 60)
   const formattedTime = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`
 
+  // On small screens the menu folds into its title in the bottom corner, clear of the board
+  const isCompact = useCompactLayout()
+  const [isOpen, setIsOpen] = useState(false)
+
   return (
     <div style={{
       position: 'absolute',
-      top: '20px',
-      right: '20px',
+      ...(isCompact ? { bottom: '8px', right: '8px' } : { top: '20px', right: '20px' }),
       zIndex: 1000,
       backgroundColor: 'rgba(26, 26, 46, 0.9)',
-      padding: '15px 20px',
+      padding: isCompact ? '8px 12px' : '15px 20px',
       borderRadius: '8px',
       border: '1px solid rgba(255, 255, 255, 0.1)',
       color: '#fff',
       fontFamily: 'system-ui, sans-serif',
       fontSize: '14px',
+      maxWidth: 'calc(100vw - 16px)',
+      maxHeight: isCompact ? '70vh' : undefined,
+      overflowY: isCompact ? 'auto' : undefined,
+      boxSizing: 'border-box',
     }}>
-      <h3 style={{ margin: '0 0 10px 0', fontSize: '16px', fontWeight: 'bold' }}>Settings</h3>
-      <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-        <label style={{ 
-          display: 'flex', 
-          alignItems: 'center', 
-          gap: '8px',
-          cursor: 'pointer',
-          userSelect: 'none',
-        }}>
-          <input
-            type="checkbox"
-            checked={showWireframe}
-            onChange={onToggleWireframe}
-            style={{ cursor: 'pointer' }}
-          />
-          <span>Show Wireframe</span>
-        </label>
-        <label style={{ 
-          display: 'flex', 
-          alignItems: 'center', 
-          gap: '8px',
-          cursor: 'pointer',
-          userSelect: 'none',
-        }}>
-          <input
-            type="checkbox"
-            checked={showAxes}
-            onChange={onToggleAxes}
-            style={{ cursor: 'pointer' }}
-          />
-          <span>Show Axes (X, Y, Z)</span>
-        </label>
-        <div style={{ 
-          display: 'flex', 
-          flexDirection: 'column', 
-          gap: '5px',
-          paddingTop: '5px',
-          borderTop: '1px solid rgba(255, 255, 255, 0.1)',
-        }}>
-          <div style={{ 
+      <h3
+        onClick={isCompact ? () => setIsOpen(!isOpen) : undefined}
+        style={{
+          margin: isCompact && !isOpen ? 0 : '0 0 10px 0',
+          fontSize: '16px',
+          fontWeight: 'bold',
+          cursor: isCompact ? 'pointer' : 'default',
+        }}
+      >
+        {isCompact ? `Settings ${isOpen ? '▾' : '▸'}` : 'Settings'}
+      </h3>
+      {(!isCompact || isOpen) && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+          <label style={{ 
             display: 'flex', 
-            justifyContent: 'space-between', 
-            alignItems: 'center',
-            marginBottom: '5px',
+            alignItems: 'center', 
+            gap: '8px',
+            cursor: 'pointer',
+            userSelect: 'none',
           }}>
-            <span>Day/Night Cycle</span>
-            <label style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
-              gap: '6px',
-              cursor: 'pointer',
-              userSelect: 'none',
-            }}>
-              <input
-                type="checkbox"
-                checked={isCyclePaused}
-                onChange={onToggleCyclePause}
-                style={{ cursor: 'pointer' }}
-              />
-              <span style={{ fontSize: '12px' }}>Pause</span>
-            </label>
-          </div>
+            <input
+              type="checkbox"
+              checked={showWireframe}
+              onChange={onToggleWireframe}
+              style={{ cursor: 'pointer' }}
+            />
+            <span>Show Wireframe</span>
+          </label>
+          <label style={{ 
+            display: 'flex', 
+            alignItems: 'center', 
+            gap: '8px',
+            cursor: 'pointer',
+            userSelect: 'none',
+          }}>
+            <input
+              type="checkbox"
+              checked={showAxes}
+              onChange={onToggleAxes}
+              style={{ cursor: 'pointer' }}
+            />
+            <span>Show Axes (X, Y, Z)</span>
+          </label>
           <div style={{ 
             display: 'flex', 
-            justifyContent: 'space-between', 
-            fontSize: '12px',
-            color: 'rgba(255, 255, 255, 0.85)',
+            flexDirection: 'column', 
+            gap: '5px',
+            paddingTop: '5px',
+            borderTop: '1px solid rgba(255, 255, 255, 0.1)',
           }}>
-            <span>{`Time: ${formattedTime}`}</span>
-          </div>
-          <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
             <div style={{ 
               display: 'flex', 
               justifyContent: 'space-between', 
               alignItems: 'center',
+              marginBottom: '5px',
             }}>
-              <span style={{ fontSize: '12px' }}>Speed: {cycleSpeed.toFixed(1)}x</span>
-            </div>
-            <input
-              type="range"
-              min="0.1"
-              max="100.0"
-              step="0.1"
-              value={cycleSpeed}
-              onChange={(e) => onCycleSpeedChange(parseFloat(e.target.value))}
-              style={{ 
-                width: '100%',
+              <span>Day/Night Cycle</span>
+              <label style={{ 
+                display: 'flex', 
+                alignItems: 'center', 
+                gap: '6px',
                 cursor: 'pointer',
-              }}
-              disabled={isCyclePaused}
-            />
+                userSelect: 'none',
+              }}>
+                <input
+                  type="checkbox"
+                  checked={isCyclePaused}
+                  onChange={onToggleCyclePause}
+                  style={{ cursor: 'pointer' }}
+                />
+                <span style={{ fontSize: '12px' }}>Pause</span>
+              </label>
+            </div>
             <div style={{ 
               display: 'flex', 
               justifyContent: 'space-between', 
-              fontSize: '10px',
-              color: 'rgba(255, 255, 255, 0.6)',
+              fontSize: '12px',
+              color: 'rgba(255, 255, 255, 0.85)',
             }}>
-              <span>0.1x</span>
-              <span>1.0x</span>
-              <span>100.0x</span>
+              <span>{`Time: ${formattedTime}`}</span>
             </div>
-            <label style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
+              <div style={{ 
+                display: 'flex', 
+                justifyContent: 'space-between', 
+                alignItems: 'center',
+              }}>
+                <span style={{ fontSize: '12px' }}>Speed: {cycleSpeed.toFixed(1)}x</span>
+              </div>
+              <input
+                type="range"
+                min="0.1"
+                max="100.0"
+                step="0.1"
+                value={cycleSpeed}
+                onChange={(e) => onCycleSpeedChange(parseFloat(e.target.value))}
+                style={{ 
+                  width: '100%',
+                  cursor: 'pointer',
+                }}
+                disabled={isCyclePaused}
+              />
+              <div style={{ 
+                display: 'flex', 
+                justifyContent: 'space-between', 
+                fontSize: '10px',
+                color: 'rgba(255, 255, 255, 0.6)',
+              }}>
+                <span>0.1x</span>
+                <span>1.0x</span>
+                <span>100.0x</span>
+              </div>
+              <label style={{ 
+                display: 'flex', 
+                alignItems: 'center', 
+                gap: '8px',
+                cursor: 'pointer',
+                userSelect: 'none',
+                marginTop: '5px',
+              }}>
+                <input
+                  type="checkbox"
+                  checked={showCyclePath}
+                  onChange={onToggleCyclePath}
+                  style={{ cursor: 'pointer' }}
+                />
+                <span style={{ fontSize: '12px' }}>Show Cycle Path</span>
+              </label>
+            </div>
+          </div>
+          <label style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '8px',
+            paddingTop: '5px',
+            borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+          }}>
+            <span>Queue</span>
+            <select
+              value={queueGenerator}
+              onChange={(e) => onQueueGeneratorChange(e.target.value as QueueGeneratorId)}
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                color: '#fff',
+                border: '1px solid rgba(255, 255, 255, 0.2)',
+                borderRadius: '4px',
+                padding: '2px 6px',
+                fontSize: '12px',
+                cursor: 'pointer',
+              }}
+            >
+              {QUEUE_GENERATOR_IDS.map((id) => (
+                <option key={id} value={id} style={{ color: '#000' }}>
+                  {QUEUE_GENERATORS[id].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '8px',
+          }}>
+            <label style={{
+              display: 'flex',
+              alignItems: 'center',
               gap: '8px',
               cursor: 'pointer',
               userSelect: 'none',
-              marginTop: '5px',
             }}>
               <input
                 type="checkbox"
-                checked={showCyclePath}
-                onChange={onToggleCyclePath}
+                checked={showHint}
+                onChange={onToggleHint}
                 style={{ cursor: 'pointer' }}
               />
-              <span style={{ fontSize: '12px' }}>Show Cycle Path</span>
+              <span>Hint (H)</span>
             </label>
+            <select
+              value={hintHeuristic}
+              onChange={(e) => onHintHeuristicChange(e.target.value as HintHeuristicId)}
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                color: '#fff',
+                border: '1px solid rgba(255, 255, 255, 0.2)',
+                borderRadius: '4px',
+                padding: '2px 6px',
+                fontSize: '12px',
+                cursor: 'pointer',
+              }}
+            >
+              {HINT_HEURISTIC_IDS.map((id) => (
+                <option key={id} value={id} style={{ color: '#000' }}>
+                  {HINT_HEURISTICS[id].label}
+                </option>
+              ))}
+            </select>
           </div>
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '8px',
+          }}>
+            <label style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              cursor: 'pointer',
+              userSelect: 'none',
+            }}>
+              <input
+                type="checkbox"
+                checked={demolishMode}
+                onChange={onToggleDemolish}
+                style={{ cursor: 'pointer' }}
+              />
+              <span>Demolish (X)</span>
+            </label>
+            <span style={{ fontSize: '12px', color: canDemolish ? 'rgba(255, 255, 255, 0.6)' : '#ff6663' }}>
+              {`Click a block, ${DEMOLISH_COST} charge`}
+            </span>
+          </div>
+          <NewWorldPanel onNewWorld={onNewWorld} />
+          <ShapeEditorPanel shapes={customShapes} error={shapeError} onCreate={onCreateShape} />
+          <SavePanel
+            slots={saveSlots}
+            error={saveError}
+            onSave={onSave}
+            onLoad={onLoadSave}
+            onDelete={onDeleteSave}
+          />
+          <SharePanel
+            seed={worldSeed}
+            error={shareError}
+            notice={shareNotice}
+            onCopyCode={onCopyWorldCode}
+            onCopyLink={onCopyWorldLink}
+            onImport={onImportWorld}
+          />
         </div>
-      </div>
+      )}
     </div>
   )
 }
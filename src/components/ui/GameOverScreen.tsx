@@ -0,0 +1,81 @@
+import NewWorldPanel from './NewWorldPanel'
+import { type ScoreBreakdown, type WorldPresetId, SCORE_CATEGORIES, SCORE_CATEGORY_IDS } from '../../engine'
+
+interface GameOverScreenProps {
+  score: ScoreBreakdown
+  total: number
+  blockCount: number // Blocks placed above the ground
+  highestY: number
+  onUndo: () => void
+  onNewWorld: (preset: WorldPresetId) => void
+}
+
+const buttonStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '4px 12px',
+  fontSize: '12px',
+  cursor: 'pointer',
+}
+
+export default function GameOverScreen({
+  score,
+  total,
+  blockCount,
+  highestY,
+  onUndo,
+  onNewWorld,
+}: GameOverScreenProps) {
+  const stats: Array<[string, number]> = [
+    ...SCORE_CATEGORY_IDS.map((category): [string, number] => [SCORE_CATEGORIES[category].label, score[category]]),
+    ['Blocks placed', blockCount],
+    ['Height', highestY],
+  ]
+
+  return (
+    <div style={{
+      position: 'absolute',
+      inset: 0,
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      fontFamily: 'system-ui, sans-serif',
+      color: '#fff',
+    }}>
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+        minWidth: '240px',
+        backgroundColor: 'rgba(26, 26, 46, 0.95)',
+        padding: '20px 24px',
+        borderRadius: '8px',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+        fontSize: '14px',
+      }}>
+        <h2 style={{ margin: 0, fontSize: '20px', fontWeight: 'bold' }}>Game over</h2>
+        <span style={{ fontSize: '12px', color: 'rgba(255, 255, 255, 0.7)' }}>
+          No piece in play fits anywhere and none can be swapped out
+        </span>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+          <span>Final score</span>
+          <span style={{ fontSize: '24px', fontWeight: 'bold' }}>{total}</span>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px' }}>
+          {stats.map(([label, value]) => (
+            <div key={label} style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <span style={{ color: 'rgba(255, 255, 255, 0.7)' }}>{label}</span>
+              <span>{value}</span>
+            </div>
+          ))}
+        </div>
+        <button onClick={onUndo} style={buttonStyle}>Undo last move</button>
+        <NewWorldPanel onNewWorld={onNewWorld} />
+      </div>
+    </div>
+  )
+}
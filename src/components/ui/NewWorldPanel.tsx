@@ -0,0 +1,56 @@
+import { useState } from 'react'
+import { type WorldPresetId, WORLD_PRESETS, WORLD_PRESET_IDS, DEFAULT_WORLD_PRESET } from '../../engine'
+
+interface NewWorldPanelProps {
+  onNewWorld: (preset: WorldPresetId) => void
+}
+
+const buttonStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '2px 8px',
+  fontSize: '12px',
+  cursor: 'pointer',
+}
+
+export default function NewWorldPanel({ onNewWorld }: NewWorldPanelProps) {
+  const [preset, setPreset] = useState<WorldPresetId>(DEFAULT_WORLD_PRESET)
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '5px',
+      paddingTop: '5px',
+      borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+    }}>
+      <span>New world</span>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <select
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as WorldPresetId)}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            backgroundColor: 'rgba(255, 255, 255, 0.05)',
+            color: '#fff',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '4px',
+            padding: '2px 6px',
+            fontSize: '12px',
+            cursor: 'pointer',
+          }}
+        >
+          {WORLD_PRESET_IDS.map((id) => (
+            <option key={id} value={id} style={{ color: '#000' }}>
+              {WORLD_PRESETS[id].label}
+            </option>
+          ))}
+        </select>
+        <button onClick={() => onNewWorld(preset)} style={buttonStyle}>Start</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { useEffect } from 'react'
+import { type Position } from '../../engine'
+
+// How long a failed placement message stays on screen
+const TOAST_DURATION_MS = 3000
+
+export interface PlacementFailure {
+  reason: string
+  blocks: Position[]
+}
+
+interface PlacementToastProps {
+  failure: PlacementFailure | null
+  onDismiss: () => void
+}
+
+export default function PlacementToast({ failure, onDismiss }: PlacementToastProps) {
+  useEffect(() => {
+    if (!failure) return
+    const timeout = setTimeout(onDismiss, TOAST_DURATION_MS)
+    return () => clearTimeout(timeout)
+  }, [failure, onDismiss])
+
+  if (!failure) return null
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '30px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 1000,
+        backgroundColor: 'rgba(26, 26, 46, 0.9)',
+        color: '#fff',
+        padding: '10px 16px',
+        borderRadius: '8px',
+        border: '1px solid #ff6663',
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '14px',
+        textAlign: 'center',
+        pointerEvents: 'none',
+      }}
+    >
+      <div style={{ fontWeight: 'bold' }}>{failure.reason}</div>
+      {failure.blocks.length > 0 && (
+        <div style={{ marginTop: '4px', fontSize: '12px', color: 'rgba(255, 255, 255, 0.7)' }}>
+          {`At ${failure.blocks.map((block) => `(${block.join(', ')})`).join(' ')}`}
+        </div>
+      )}
+    </div>
+  )
+}
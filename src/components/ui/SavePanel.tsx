@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { type SaveSlotInfo } from '../../utils/saveData'
+
+interface SavePanelProps {
+  slots: SaveSlotInfo[]
+  error: string | null
+  onSave: (name: string) => void
+  onLoad: (slotId: string) => void
+  onDelete: (slotId: string) => void
+}
+
+const buttonStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '2px 8px',
+  fontSize: '12px',
+  cursor: 'pointer',
+}
+
+export default function SavePanel({ slots, error, onSave, onLoad, onDelete }: SavePanelProps) {
+  const [saveName, setSaveName] = useState('')
+
+  const handleSave = () => {
+    onSave(saveName)
+    setSaveName('')
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '5px',
+      paddingTop: '5px',
+      borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+    }}>
+      <span>Saves</span>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input
+          type="text"
+          value={saveName}
+          placeholder="Save name"
+          onChange={(e) => setSaveName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            backgroundColor: 'rgba(255, 255, 255, 0.05)',
+            color: '#fff',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '4px',
+            padding: '2px 6px',
+            fontSize: '12px',
+          }}
+        />
+        <button onClick={handleSave} style={buttonStyle}>Save</button>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '150px', overflowY: 'auto' }}>
+        {slots.map((slot) => (
+          <div
+            key={slot.id}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: '12px',
+            }}
+          >
+            <span title={new Date(slot.savedAt).toLocaleString()}>{slot.name}</span>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              <button onClick={() => onLoad(slot.id)} style={buttonStyle}>Load</button>
+              <button onClick={() => onDelete(slot.id)} style={buttonStyle}>Delete</button>
+            </div>
+          </div>
+        ))}
+        {slots.length === 0 && (
+          <span style={{ fontSize: '12px', color: 'rgba(255, 255, 255, 0.6)' }}>No saves yet</span>
+        )}
+      </div>
+      {error && (
+        <span style={{ fontSize: '12px', color: '#ff6663' }}>{error}</span>
+      )}
+    </div>
+  )
+}
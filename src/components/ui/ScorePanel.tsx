@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react'
+import {
+  type ScoreBreakdown,
+  type ScoreEvent,
+  SCORE_CATEGORIES,
+  SCORE_CATEGORY_IDS,
+} from '../../engine'
+
+// How long the points of the last drop stay highlighted
+const EVENT_DURATION_MS = 2500
+
+interface ScorePanelProps {
+  score: ScoreBreakdown
+  total: number
+  lastEvent: ScoreEvent | null
+}
+
+function formatChange(points: number): string {
+  return points > 0 ? `+${points}` : `${points}`
+}
+
+export default function ScorePanel({ score, total, lastEvent }: ScorePanelProps) {
+  const [expiredEvent, setExpiredEvent] = useState<ScoreEvent | null>(null)
+
+  useEffect(() => {
+    if (!lastEvent) return
+    const timeout = setTimeout(() => setExpiredEvent(lastEvent), EVENT_DURATION_MS)
+    return () => clearTimeout(timeout)
+  }, [lastEvent])
+
+  const event = lastEvent !== expiredEvent && lastEvent?.points !== 0 ? lastEvent : null
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '20px',
+      left: '20px',
+      zIndex: 1000,
+      backgroundColor: 'rgba(26, 26, 46, 0.9)',
+      padding: '15px 20px',
+      borderRadius: '8px',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      color: '#fff',
+      fontFamily: 'system-ui, sans-serif',
+      fontSize: '14px',
+      minWidth: '160px',
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '10px' }}>
+        <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 'bold' }}>Score</h3>
+        <span style={{ fontSize: '20px', fontWeight: 'bold' }}>{total}</span>
+      </div>
+      {event && (
+        <div style={{ marginTop: '4px', fontSize: '12px', color: event.points > 0 ? '#8bc34a' : '#ff6663' }}>
+          {`${formatChange(event.points)} last drop`}
+        </div>
+      )}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '10px', fontSize: '12px' }}>
+        {SCORE_CATEGORY_IDS.map((category) => {
+          const change = event?.changes[category]
+          return (
+            <div
+              key={category}
+              title={SCORE_CATEGORIES[category].description}
+              style={{ display: 'flex', justifyContent: 'space-between', gap: '10px' }}
+            >
+              <span style={{ color: 'rgba(255, 255, 255, 0.7)' }}>{SCORE_CATEGORIES[category].label}</span>
+              <span>
+                {change !== undefined && (
+                  <span style={{ marginRight: '6px', color: change > 0 ? '#8bc34a' : '#ff6663' }}>
+                    {formatChange(change)}
+                  </span>
+                )}
+                {score[category]}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import { type MaterialType, MATERIAL_TYPES, MATERIAL_COLORS } from '../../utils/materials'
+import { type ShapeDefinition, SHAPE_GRID_SIZE, MAX_SHAPE_LABEL_LENGTH } from '../../engine'
+
+interface ShapeEditorPanelProps {
+  shapes: ShapeDefinition[]
+  error: string | null
+  onCreate: (label: string, material: MaterialType, cells: Array<[number, number]>) => boolean
+}
+
+const buttonStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '2px 8px',
+  fontSize: '12px',
+  cursor: 'pointer',
+}
+
+const inputStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '2px 6px',
+  fontSize: '12px',
+}
+
+const CELL_SIZE = 18
+
+// Paint a shape on a grid, pick its material and name it; new shapes join the queue's pool
+export default function ShapeEditorPanel({ shapes, error, onCreate }: ShapeEditorPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [label, setLabel] = useState('')
+  const [material, setMaterial] = useState<MaterialType>('brick')
+  // Painted cells as "x,z"
+  const [cells, setCells] = useState<Set<string>>(() => new Set())
+
+  const toggleCell = (key: string) => {
+    setCells((painted) => {
+      const next = new Set(painted)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const handleCreate = () => {
+    const painted = Array.from(cells, (key) => key.split(',').map(Number) as [number, number])
+    if (onCreate(label, material, painted)) {
+      setLabel('')
+      setCells(new Set())
+    }
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '5px',
+      paddingTop: '5px',
+      borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>Shapes</span>
+        <button onClick={() => setIsOpen(!isOpen)} style={buttonStyle}>
+          {isOpen ? 'Close' : 'New shape'}
+        </button>
+      </div>
+      {isOpen && (
+        <>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: `repeat(${SHAPE_GRID_SIZE}, ${CELL_SIZE}px)`,
+            gap: '2px',
+            alignSelf: 'center',
+          }}>
+            {Array.from({ length: SHAPE_GRID_SIZE * SHAPE_GRID_SIZE }, (_, index) => {
+              const key = `${index % SHAPE_GRID_SIZE},${Math.floor(index / SHAPE_GRID_SIZE)}`
+              return (
+                <div
+                  key={key}
+                  onClick={() => toggleCell(key)}
+                  style={{
+                    width: `${CELL_SIZE}px`,
+                    height: `${CELL_SIZE}px`,
+                    borderRadius: '2px',
+                    border: '1px solid rgba(255, 255, 255, 0.2)',
+                    backgroundColor: cells.has(key) ? MATERIAL_COLORS[material] : 'rgba(255, 255, 255, 0.05)',
+                    cursor: 'pointer',
+                  }}
+                />
+              )
+            })}
+          </div>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <input
+              type="text"
+              value={label}
+              placeholder="Shape name"
+              maxLength={MAX_SHAPE_LABEL_LENGTH}
+              onChange={(e) => setLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+            />
+            <select
+              value={material}
+              onChange={(e) => setMaterial(e.target.value as MaterialType)}
+              style={{ ...inputStyle, cursor: 'pointer' }}
+            >
+              {MATERIAL_TYPES.map((type) => (
+                <option key={type} value={type} style={{ color: '#000' }}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <button onClick={handleCreate} style={buttonStyle}>Add shape</button>
+          {error && (
+            <span style={{ fontSize: '12px', color: '#ff6663' }}>{error}</span>
+          )}
+        </>
+      )}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '100px', overflowY: 'auto' }}>
+        {shapes.map((shape) => (
+          <div key={shape.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+            <span style={{
+              width: '10px',
+              height: '10px',
+              borderRadius: '2px',
+              backgroundColor: MATERIAL_COLORS[shape.material],
+            }} />
+            <span>{shape.label}</span>
+            <span style={{ marginLeft: 'auto', color: 'rgba(255, 255, 255, 0.6)' }}>
+              {`${shape.blocks.length} blocks`}
+            </span>
+          </div>
+        ))}
+        {shapes.length === 0 && (
+          <span style={{ fontSize: '12px', color: 'rgba(255, 255, 255, 0.6)' }}>No custom shapes yet</span>
+        )}
+      </div>
+    </div>
+  )
+}
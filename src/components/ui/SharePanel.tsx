@@ -0,0 +1,75 @@
+import { useState } from 'react'
+
+interface SharePanelProps {
+  seed: number
+  error: string | null
+  notice: string | null
+  onCopyCode: () => void
+  onCopyLink: () => void
+  onImport: (code: string) => boolean
+}
+
+const buttonStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '2px 8px',
+  fontSize: '12px',
+  cursor: 'pointer',
+}
+
+export default function SharePanel({ seed, error, notice, onCopyCode, onCopyLink, onImport }: SharePanelProps) {
+  const [code, setCode] = useState('')
+
+  const handleImport = () => {
+    if (onImport(code)) {
+      setCode('')
+    }
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '5px',
+      paddingTop: '5px',
+      borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>Share</span>
+        <span style={{ fontSize: '12px', color: 'rgba(255, 255, 255, 0.6)' }}>{`Seed: ${seed}`}</span>
+      </div>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button onClick={onCopyCode} style={buttonStyle}>Copy code</button>
+        <button onClick={onCopyLink} style={buttonStyle}>Copy link</button>
+      </div>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input
+          type="text"
+          value={code}
+          placeholder="Paste world code or link"
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            backgroundColor: 'rgba(255, 255, 255, 0.05)',
+            color: '#fff',
+            border: '1px solid rgba(255, 255, 255, 0.2)',
+            borderRadius: '4px',
+            padding: '2px 6px',
+            fontSize: '12px',
+          }}
+        />
+        <button onClick={handleImport} style={buttonStyle}>Import</button>
+      </div>
+      {notice && (
+        <span style={{ fontSize: '12px', color: 'rgba(255, 255, 255, 0.6)' }}>{notice}</span>
+      )}
+      {error && (
+        <span style={{ fontSize: '12px', color: '#ff6663', maxWidth: '220px' }}>{error}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+interface TouchControlsProps {
+  isOrbiting: boolean
+  onToggleOrbiting: () => void
+}
+
+const buttonStyle = {
+  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  color: '#fff',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  padding: '6px 10px',
+  fontSize: '13px',
+  cursor: 'pointer',
+}
+
+// Shown on touch screens: the orbit modifier and how the gestures work
+export default function TouchControls({ isOrbiting, onToggleOrbiting }: TouchControlsProps) {
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      left: '8px',
+      transform: 'translateY(-50%)',
+      zIndex: 1000,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px',
+      maxWidth: '120px',
+      backgroundColor: 'rgba(26, 26, 46, 0.8)',
+      padding: '8px',
+      borderRadius: '8px',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      color: 'rgba(255, 255, 255, 0.85)',
+      fontFamily: 'system-ui, sans-serif',
+      fontSize: '11px',
+    }}>
+      <button
+        onClick={onToggleOrbiting}
+        style={{
+          ...buttonStyle,
+          border: isOrbiting ? '1px solid #4a90e2' : buttonStyle.border,
+        }}
+      >
+        {isOrbiting ? 'Orbit: on' : 'Orbit: off'}
+      </button>
+      <span>
+        {isOrbiting
+          ? 'Drag to orbit the camera'
+          : 'Drag to move, tap the piece\'s cell to drop, twist to rotate, pinch to zoom'}
+      </span>
+    </div>
+  )
+}
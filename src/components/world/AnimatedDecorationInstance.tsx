@@ -10,6 +10,8 @@ interface AnimatedDecorationInstanceProps {
   face: FaceDirection
   rotation: [number, number, number]
   delay: number
+  removing?: boolean
+  onRemoveComplete?: () => void
   animations?: THREE.AnimationClip[]
   phaseIndex?: number
 }
@@ -22,6 +24,8 @@ function AnimatedDecorationInstance({
   delay,
   animations = [],
   phaseIndex,
+  removing = false,
+  onRemoveComplete,
 }: AnimatedDecorationInstanceProps) {
   const groupRef = useRef<THREE.Group>(null)
   
@@ -30,13 +34,26 @@ function AnimatedDecorationInstance({
     [blockPosition, face]
   )
   
-  // Scale animation: scale-up on mount (same as trees)
-  const [springs] = useSpring(() => ({
+  // Scale animation: scale-up on mount, scale-down when removing (same as trees)
+  const [springs, api] = useSpring(() => ({
     from: { scale: 0 },
     to: { scale: 1 },
     config: { mass: 1, tension: 170, friction: 18 },
     delay: delay,
   }), [delay])
+
+  useEffect(() => {
+    if (!removing) return
+    api.start({
+      to: { scale: 0 },
+      delay: 0,
+      onRest: ({ finished }) => {
+        if (finished && onRemoveComplete) {
+          onRemoveComplete()
+        }
+      },
+    })
+  }, [removing, api, onRemoveComplete])
   
   // Clone the node - exact same structure as WaterBlocks
   const clonedNode = useMemo(() => {
@@ -119,6 +136,7 @@ export default memo(AnimatedDecorationInstance, (prevProps, nextProps) => {
     prevProps.face === nextProps.face &&
     prevProps.rotation.join(',') === nextProps.rotation.join(',') &&
     prevProps.delay === nextProps.delay &&
+    prevProps.removing === nextProps.removing &&
     prevProps.animations === nextProps.animations &&
     prevProps.phaseIndex === nextProps.phaseIndex
   )
@@ -1,4 +1,4 @@
-import { type MaterialType, getMaterialColor } from '../../utils/materials'
+import { type MaterialType, MATERIALS, TRANSPARENT_OPACITY, getMaterialColor } from '../../utils/materials'
 import * as THREE from 'three'
 
 interface BlockProps {
@@ -16,6 +16,7 @@ export default function Block({
 }: BlockProps) {
   // Use material color if provided, otherwise fall back to color prop
   const blockColor = material ? getMaterialColor(material) : (color || "#4a90e2")
+  const isTransparent = material !== undefined && MATERIALS[material].opacity === 'transparent'
   
   return (
     <mesh position={position} receiveShadow castShadow>
@@ -23,6 +24,7 @@ export default function Block({
       <meshStandardMaterial
         color={blockColor}
         wireframe={wireframe}
+        {...(isTransparent ? { transparent: true, opacity: TRANSPARENT_OPACITY } : {})}
         {...(wireframe ? { emissive: new THREE.Color(blockColor), emissiveIntensity: 0.3 } : {})}
       />
     </mesh>
@@ -1,37 +1,35 @@
+import { useMemo } from 'react'
 import Block from './Block'
+import { type WorldConfig, WORLD_PRESETS, DEFAULT_WORLD_PRESET, createWorldBoard } from '../../engine'
+import { Grid } from '../../utils/Grid'
 
 interface BoardProps {
-  size?: number
+  world?: WorldConfig
   position?: [number, number, number]
   wireframe?: boolean
 }
 
-export default function Board({ size = 16, position = [0, 0, 0], wireframe = false }: BoardProps) {
-  const blocks: JSX.Element[] = []
-  
-  // For integer grid: center block at [1, 1, 1] for odd sizes
-  // X/Z range: from (1 - Math.floor(size/2)) to (1 + Math.floor((size-1)/2))
-  const minCoord = 1 - Math.floor(size / 2)
-  const maxCoord = 1 + Math.floor((size - 1) / 2)
+// Unmeshed board of a world config (terrain and starter scene), one Block per cell
+export default function Board({
+  world = WORLD_PRESETS[DEFAULT_WORLD_PRESET].config,
+  position = [0, 0, 0],
+  wireframe = false,
+}: BoardProps) {
+  const boardState = useMemo(() => createWorldBoard(world), [world])
 
-  // Create grid of blocks at integer positions (always grass material)
-  for (let x = minCoord; x <= maxCoord; x++) {
-    for (let z = minCoord; z <= maxCoord; z++) {
-      blocks.push(
-        <Block
-          key={`${x}-${z}`}
-          position={[
-            position[0] + x,
-            0, // Board surface always at Y=0
-            position[2] + z,
-          ]}
-          material="grass"
-          wireframe={wireframe}
-        />
-      )
-    }
-  }
-
-  return <group>{blocks}</group>
+  return (
+    <group>
+      {Array.from(boardState.entries(), ([key, material]) => {
+        const [x, y, z] = Grid.fromKey(key)
+        return (
+          <Block
+            key={key}
+            position={[position[0] + x, position[1] + y, position[2] + z]}
+            material={material}
+            wireframe={wireframe}
+          />
+        )
+      })}
+    </group>
+  )
 }
-
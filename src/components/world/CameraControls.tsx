@@ -1,12 +1,18 @@
 import { useEffect } from 'react'
 import { useThree } from '@react-three/fiber'
-import * as THREE from 'three'
+import { type Rotation, type RotationAxis } from '../../engine/types'
+import { getCameraRelativeStep } from '../../hooks/useCameraRelativeMovement'
 
 interface CameraControlsProps {
-  activeTetromino: { type: string; position: [number, number, number]; rotation: number } | null
+  activeTetromino: { type: string; position: [number, number, number]; rotation: Rotation } | null
   moveTetromino: (deltaX: number, deltaZ: number) => void
-  rotateTetromino: () => void
+  rotateTetromino: (axis: RotationAxis) => void
   dropTetromino: () => void
+  holdTetromino?: () => void
+  toggleHint?: () => void
+  toggleDemolish?: () => void
+  undo?: () => void
+  redo?: () => void
 }
 
 export default function CameraControls({
@@ -14,56 +20,81 @@ export default function CameraControls({
   moveTetromino,
   rotateTetromino,
   dropTetromino,
+  holdTetromino,
+  toggleHint,
+  toggleDemolish,
+  undo,
+  redo,
 }: CameraControlsProps) {
   const { camera } = useThree()
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      // Typing in a form field is not a game shortcut
+      if (event.target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(event.target.tagName)) return
+
+      // History shortcuts: Ctrl+Z to undo, Ctrl+Y / Ctrl+Shift+Z to redo
+      if (event.ctrlKey || event.metaKey) {
+        const key = event.key.toLowerCase()
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault()
+          undo?.()
+        } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+          event.preventDefault()
+          redo?.()
+        }
+        return
+      }
+
+      // Demolition works between pieces too
+      if (event.key.toLowerCase() === 'x') {
+        toggleDemolish?.()
+        return
+      }
+
       if (!activeTetromino) return
 
-      // Get camera's forward direction (where it's looking)
-      const forward = new THREE.Vector3()
-      camera.getWorldDirection(forward)
-      
-      // Project forward vector onto X-Z plane (set Y to 0)
-      forward.y = 0
-      forward.normalize()
-      
-      // Calculate right vector (perpendicular to forward on X-Z plane)
-      const up = new THREE.Vector3(0, 1, 0)
-      const right = new THREE.Vector3()
-      right.crossVectors(up, forward).normalize()
-      
-      let deltaX = 0
-      let deltaZ = 0
+      // Screen direction of the move: X to the right, Y away from the camera
+      let screenX = 0
+      let screenY = 0
 
       switch (event.key.toLowerCase()) {
         case 'w':
         case 'arrowup':
           // Move away from camera (forward direction)
-          deltaX = Math.round(forward.x)
-          deltaZ = Math.round(forward.z)
+          screenY = 1
           break
         case 's':
         case 'arrowdown':
           // Move toward camera (opposite of forward)
-          deltaX = Math.round(-forward.x)
-          deltaZ = Math.round(-forward.z)
+          screenY = -1
           break
         case 'd':
         case 'arrowright':
-          // Move to camera's left
-          deltaX = Math.round(-right.x)
-          deltaZ = Math.round(-right.z)
+          // Move to camera's right
+          screenX = 1
           break
         case 'a':
         case 'arrowleft':
-          // Move to camera's right
-          deltaX = Math.round(right.x)
-          deltaZ = Math.round(right.z)
+          // Move to camera's left
+          screenX = -1
           break
         case 'r':
-          rotateTetromino()
+          rotateTetromino('yaw')
+          return
+        case 'q':
+          // Tip forward / back, e.g. to stand a piece up as a wall
+          rotateTetromino('pitch')
+          return
+        case 'e':
+          // Tip sideways
+          rotateTetromino('roll')
+          return
+        case 'c':
+          holdTetromino?.()
+          return
+        case 'h':
+          toggleHint?.()
           return
         case ' ':
           event.preventDefault()
@@ -71,6 +102,8 @@ export default function CameraControls({
           return
       }
 
+      if (screenX === 0 && screenY === 0) return
+      const [deltaX, deltaZ] = getCameraRelativeStep(camera, screenX, screenY)
       if (deltaX !== 0 || deltaZ !== 0) {
         moveTetromino(deltaX, deltaZ)
       }
@@ -78,7 +111,7 @@ export default function CameraControls({
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [activeTetromino, moveTetromino, rotateTetromino, dropTetromino, camera])
+  }, [activeTetromino, moveTetromino, rotateTetromino, dropTetromino, holdTetromino, toggleHint, toggleDemolish, undo, redo, camera])
 
   return null // This component doesn't render anything
 }
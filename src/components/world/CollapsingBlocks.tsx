@@ -0,0 +1,56 @@
+import { useEffect } from 'react'
+import { useSpring, a } from '@react-spring/three'
+import Block from './Block'
+import { type CollapseEvent } from '../../engine'
+
+interface CollapsingBlocksProps {
+  collapse: CollapseEvent
+  wireframe?: boolean
+  onComplete: (collapse: CollapseEvent) => void
+}
+
+// Blocks that lost their load path: falling ones drop to where the board has them, the rest crumble away
+// The board leaves the landing cells empty until this finishes
+export default function CollapsingBlocks({ collapse, wireframe = false, onComplete }: CollapsingBlocksProps) {
+  // Shared progress so whole clusters fall together; ease-in like gravity
+  const [spring, api] = useSpring(() => ({
+    progress: 0,
+    config: { mass: 1, tension: 120, friction: 18, clamp: true },
+  }))
+
+  useEffect(() => {
+    api.start({
+      from: { progress: 0 },
+      to: { progress: 1 },
+      onRest: () => onComplete(collapse),
+    })
+  }, [collapse, onComplete, api])
+
+  return (
+    <group>
+      {collapse.blocks.map(({ material, from, to }) => {
+        const [x, y, z] = from
+        return to ? (
+          <a.group
+            key={`${from.join(',')}-fall`}
+            position-x={x}
+            position-y={spring.progress.to((progress) => y + (to[1] - y) * progress * progress)}
+            position-z={z}
+          >
+            <Block material={material} wireframe={wireframe} />
+          </a.group>
+        ) : (
+          <a.group
+            key={`${from.join(',')}-crumble`}
+            position-x={x}
+            position-y={spring.progress.to((progress) => y - progress * 0.5)}
+            position-z={z}
+            scale={spring.progress.to((progress) => Math.max(0.001, 1 - progress))}
+          >
+            <Block material={material} wireframe={wireframe} />
+          </a.group>
+        )
+      })}
+    </group>
+  )
+}
@@ -1,4 +1,4 @@
-import { useMemo, memo } from 'react'
+import { useMemo, memo, useEffect } from 'react'
 import { useSpring, a } from '@react-spring/three'
 import * as THREE from 'three'
 import { type FaceDirection, getDecorationPosition } from '../../utils/faceCulling'
@@ -9,6 +9,8 @@ interface DecorationInstanceProps {
   face: FaceDirection
   rotation: [number, number, number]
   delay: number
+  removing?: boolean
+  onRemoveComplete?: () => void
 }
 
 function DecorationInstance({
@@ -17,19 +19,34 @@ function DecorationInstance({
   face,
   rotation,
   delay,
+  removing = false,
+  onRemoveComplete,
 }: DecorationInstanceProps) {
   const position = useMemo(
     () => getDecorationPosition(blockPosition, face),
     [blockPosition, face]
   )
   
-  // Scale animation: scale-up on mount (same as trees)
-  const [springs] = useSpring(() => ({
+  // Scale animation: scale-up on mount, scale-down when removing (same as trees)
+  const [springs, api] = useSpring(() => ({
     from: { scale: 0 },
     to: { scale: 1 },
     config: { mass: 1, tension: 170, friction: 18 },
     delay: delay,
   }), [delay])
+
+  useEffect(() => {
+    if (!removing) return
+    api.start({
+      to: { scale: 0 },
+      delay: 0,
+      onRest: ({ finished }) => {
+        if (finished && onRemoveComplete) {
+          onRemoveComplete()
+        }
+      },
+    })
+  }, [removing, api, onRemoveComplete])
   
   // Clone the node and reset position/rotation (position and rotation will be on the group)
   const clonedNode = useMemo(() => {
@@ -69,7 +86,8 @@ export default memo(DecorationInstance, (prevProps, nextProps) => {
     prevProps.blockPosition.join(',') === nextProps.blockPosition.join(',') &&
     prevProps.face === nextProps.face &&
     prevProps.rotation.join(',') === nextProps.rotation.join(',') &&
-    prevProps.delay === nextProps.delay
+    prevProps.delay === nextProps.delay &&
+    prevProps.removing === nextProps.removing
   )
 })
 
@@ -1,19 +1,27 @@
-import { useMemo, useEffect, useState } from 'react'
+import { useMemo, useEffect, useState, useCallback } from 'react'
 import { useGLTF } from '@react-three/drei'
 import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
 import { RectAreaLightUniformsLib } from 'three/examples/jsm/lights/RectAreaLightUniformsLib.js'
 import { type MaterialType } from '../../utils/materials'
 import { getDecorationPlacements, type DecorationPlacement } from '../../rules'
+import { type WaterState } from '../../engine'
 import DecorationInstance from './DecorationInstance'
 import AnimatedDecorationInstance from './AnimatedDecorationInstance'
 import { useDayNightCycleSnapshot } from '../../context/DayNightCycleContext'
 
 interface DecorationsProps {
   boardState: Map<string, MaterialType>
+  water: WaterState
+  seed: number
 }
 
-export default function Decorations({ boardState }: DecorationsProps) {
+// Stable identity of a placement across board updates
+function getPlacementKey(placement: DecorationPlacement): string {
+  return `${placement.decorationName}-${placement.position.join(',')}-${placement.face}-${placement.rotation.join(',')}`
+}
+
+export default function Decorations({ boardState, water, seed }: DecorationsProps) {
   // Load block decorations GLB file (contains both brick and wood decorations)
   const blockDecorations = useGLTF('/block_decorations.glb') as any
   const decorationNodes = blockDecorations.nodes || {}
@@ -35,8 +43,25 @@ export default function Decorations({ boardState }: DecorationsProps) {
   
   // Calculate decoration placements based on rules
   const placements = useMemo(() => {
-    return getDecorationPlacements(boardState)
-  }, [boardState])
+    return getDecorationPlacements(boardState, seed, water)
+  }, [boardState, seed, water])
+
+  // Placements that disappeared from the rules output (e.g. after undo) animate out before unmounting
+  const [prevPlacements, setPrevPlacements] = useState(placements)
+  const [removingPlacements, setRemovingPlacements] = useState<DecorationPlacement[]>([])
+
+  if (placements !== prevPlacements) {
+    const currentKeys = new Set(placements.map(getPlacementKey))
+    const removingByKey = new Map(
+      [...removingPlacements, ...prevPlacements].map((placement) => [getPlacementKey(placement), placement])
+    )
+    setRemovingPlacements(Array.from(removingByKey.values()).filter((placement) => !currentKeys.has(getPlacementKey(placement))))
+    setPrevPlacements(placements)
+  }
+
+  const handleRemoveComplete = useCallback((key: string) => {
+    setRemovingPlacements((prev) => prev.filter((placement) => getPlacementKey(placement) !== key))
+  }, [])
 
   const getCycleState = useDayNightCycleSnapshot()
   const [windowsLit, setWindowsLit] = useState(false)
@@ -54,9 +79,13 @@ export default function Decorations({ boardState }: DecorationsProps) {
   
   // Group placements by decoration name to optimize node lookups
   const placementsByDecoration = useMemo(() => {
-    const grouped = new Map<string, DecorationPlacement[]>()
+    const grouped = new Map<string, Array<DecorationPlacement & { removing: boolean }>>()
+    const all = [
+      ...placements.map((placement) => ({ ...placement, removing: false })),
+      ...removingPlacements.map((placement) => ({ ...placement, removing: true })),
+    ]
     
-    for (const placement of placements) {
+    for (const placement of all) {
       if (!grouped.has(placement.decorationName)) {
         grouped.set(placement.decorationName, [])
       }
@@ -64,7 +93,7 @@ export default function Decorations({ boardState }: DecorationsProps) {
     }
     
     return grouped
-  }, [placements])
+  }, [placements, removingPlacements])
   
   const isWindowDecoration = (decorationName: string) =>
     decorationName.toLowerCase().includes('window')
@@ -93,8 +122,10 @@ export default function Decorations({ boardState }: DecorationsProps) {
           return null
         }
         
-        const renderInstances = decorationPlacements.map((placement, index) => {
-          const key = `${decorationName}-${placement.position.join(',')}-${placement.face}-${index}`
+        const renderInstances = decorationPlacements.map((placement) => {
+          const placementKey = getPlacementKey(placement)
+          const key = placement.removing ? `removing-${placementKey}` : placementKey
+          const onRemoveComplete = placement.removing ? () => handleRemoveComplete(placementKey) : undefined
           
           // Use AnimatedDecorationInstance for water decorations
           if (isWaterDecoration(decorationName) && placement.isAnimated) {
@@ -108,6 +139,8 @@ export default function Decorations({ boardState }: DecorationsProps) {
                 delay={placement.delay}
                 animations={animations}
                 phaseIndex={placement.phaseIndex}
+                removing={placement.removing}
+                onRemoveComplete={onRemoveComplete}
               />
             )
           }
@@ -121,6 +154,8 @@ export default function Decorations({ boardState }: DecorationsProps) {
               face={placement.face}
               rotation={placement.rotation}
               delay={placement.delay}
+              removing={placement.removing}
+              onRemoveComplete={onRemoveComplete}
             />
           )
         })
@@ -133,7 +168,7 @@ export default function Decorations({ boardState }: DecorationsProps) {
           )
         }
 
-        const windowLights = decorationPlacements.map((placement, index) => {
+        const windowLights = decorationPlacements.filter((placement) => !placement.removing).map((placement, index) => {
           const normal = FACE_NORMALS[placement.face] || [0, 0, 1]
           const offset = 0.65
           const position: [number, number, number] = [
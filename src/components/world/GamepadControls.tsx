@@ -0,0 +1,146 @@
+import { useRef, type ElementRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { type OrbitControls } from '@react-three/drei'
+import { type Rotation, type RotationAxis } from '../../engine/types'
+import { getCameraRelativeStep } from '../../hooks/useCameraRelativeMovement'
+
+type OrbitControlsImpl = ElementRef<typeof OrbitControls>
+
+interface GamepadControlsProps {
+  activeTetromino: { type: string; position: [number, number, number]; rotation: Rotation } | null
+  moveTetromino: (deltaX: number, deltaZ: number) => void
+  rotateTetromino: (axis: RotationAxis) => void
+  dropTetromino: () => void
+  holdTetromino?: () => void
+  queueLength: number
+  // Queue slot the bumpers browse to, picked with A (null until a bumper is pressed)
+  queueCursor: number | null
+  onQueueCursorChange: (index: number) => void
+  selectTetromino: (index: number) => void
+}
+
+// Stick travel ignored around the center, so worn sticks don't drift
+const STICK_DEAD_ZONE = 0.3
+// Holding a direction moves once, waits, then keeps moving at the repeat rate
+const REPEAT_DELAY_MS = 300
+const REPEAT_INTERVAL_MS = 120
+// Right stick orbit speed at full tilt, in radians per second
+const ORBIT_SPEED = 2
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const BUTTONS = {
+  a: 0,
+  b: 1,
+  x: 2,
+  y: 3,
+  leftBumper: 4,
+  rightBumper: 5,
+  leftTrigger: 6,
+  dpadUp: 12,
+  dpadDown: 13,
+  dpadLeft: 14,
+  dpadRight: 15,
+}
+const AXES = { leftX: 0, leftY: 1, rightX: 2, rightY: 3 }
+
+function applyDeadZone(value: number): number {
+  return Math.abs(value) < STICK_DEAD_ZONE ? 0 : value
+}
+
+// The held direction as a screen step (X to the right, Y away from the camera), from the d-pad or the left stick
+// The stick snaps to its dominant axis so it moves like the d-pad
+function getHeldDirection(gamepad: Gamepad): [number, number] {
+  const isPressed = (index: number) => gamepad.buttons[index]?.pressed ?? false
+  const dpadX = Number(isPressed(BUTTONS.dpadRight)) - Number(isPressed(BUTTONS.dpadLeft))
+  const dpadY = Number(isPressed(BUTTONS.dpadUp)) - Number(isPressed(BUTTONS.dpadDown))
+  if (dpadX !== 0 || dpadY !== 0) return [dpadX, dpadY]
+
+  const stickX = applyDeadZone(gamepad.axes[AXES.leftX] ?? 0)
+  const stickY = -applyDeadZone(gamepad.axes[AXES.leftY] ?? 0) // Stick Y points down
+  if (stickX === 0 && stickY === 0) return [0, 0]
+  return Math.abs(stickX) >= Math.abs(stickY) ? [Math.sign(stickX), 0] : [0, Math.sign(stickY)]
+}
+
+/**
+ * Gamepad input, polled every frame through the Gamepad API
+ * Left stick / d-pad move the piece relative to the camera, A drops, X/Y/B rotate (yaw, pitch, roll),
+ * left trigger holds and the right stick orbits the camera
+ * Between turns the bumpers browse the queue and A picks the piece under the cursor
+ * Orbiting needs OrbitControls registered with makeDefault
+ */
+export default function GamepadControls({
+  activeTetromino,
+  moveTetromino,
+  rotateTetromino,
+  dropTetromino,
+  holdTetromino,
+  queueLength,
+  queueCursor,
+  onQueueCursorChange,
+  selectTetromino,
+}: GamepadControlsProps) {
+  const { camera } = useThree()
+  const controls = useThree((state) => state.controls) as OrbitControlsImpl | null
+  // Buttons pressed on the previous frame, so each press acts once
+  const pressedRef = useRef<boolean[]>([])
+  // Direction being held and when it moves next
+  const repeatRef = useRef<{ direction: string; nextMoveAt: number } | null>(null)
+
+  useFrame((_, delta) => {
+    const gamepad = navigator.getGamepads?.().find((pad) => pad?.connected)
+    if (!gamepad) return
+
+    // Buttons act on the frame they go down
+    const previous = pressedRef.current
+    const justPressed = (index: number) => (gamepad.buttons[index]?.pressed ?? false) && !previous[index]
+    // Pieces are picked between turns, the same as clicking the queue
+    if (!activeTetromino && queueLength > 0) {
+      if (justPressed(BUTTONS.leftBumper) || justPressed(BUTTONS.rightBumper)) {
+        const step = justPressed(BUTTONS.rightBumper) ? 1 : -1
+        const cursor = queueCursor ?? (step > 0 ? -1 : 0)
+        onQueueCursorChange((cursor + step + queueLength) % queueLength)
+      } else if (justPressed(BUTTONS.a) && queueCursor !== null) {
+        selectTetromino(Math.min(queueCursor, queueLength - 1))
+      }
+    }
+    if (activeTetromino) {
+      if (justPressed(BUTTONS.a)) dropTetromino()
+      if (justPressed(BUTTONS.x)) rotateTetromino('yaw')
+      if (justPressed(BUTTONS.y)) rotateTetromino('pitch')
+      if (justPressed(BUTTONS.b)) rotateTetromino('roll')
+      if (justPressed(BUTTONS.leftTrigger)) holdTetromino?.()
+    }
+    pressedRef.current = gamepad.buttons.map((button) => button.pressed)
+
+    // Movement repeats while a direction is held
+    const [screenX, screenY] = getHeldDirection(gamepad)
+    if (!activeTetromino || (screenX === 0 && screenY === 0)) {
+      repeatRef.current = null
+    } else {
+      const direction = `${screenX},${screenY}`
+      const now = performance.now()
+      const repeat = repeatRef.current
+      if (!repeat || repeat.direction !== direction || now >= repeat.nextMoveAt) {
+        const [deltaX, deltaZ] = getCameraRelativeStep(camera, screenX, screenY)
+        if (deltaX !== 0 || deltaZ !== 0) {
+          moveTetromino(deltaX, deltaZ)
+        }
+        const isFirstMove = !repeat || repeat.direction !== direction
+        repeatRef.current = {
+          direction,
+          nextMoveAt: now + (isFirstMove ? REPEAT_DELAY_MS : REPEAT_INTERVAL_MS),
+        }
+      }
+    }
+
+    // Right stick orbits around the board
+    const orbitX = applyDeadZone(gamepad.axes[AXES.rightX] ?? 0)
+    const orbitY = applyDeadZone(gamepad.axes[AXES.rightY] ?? 0)
+    if (controls && (orbitX !== 0 || orbitY !== 0)) {
+      controls.setAzimuthalAngle(controls.getAzimuthalAngle() - orbitX * ORBIT_SPEED * delta)
+      controls.setPolarAngle(controls.getPolarAngle() - orbitY * ORBIT_SPEED * delta)
+    }
+  })
+
+  return null // This component doesn't render anything
+}
@@ -1,22 +1,103 @@
-import { useMemo, useEffect, useRef } from 'react'
-import { useSpring, a } from '@react-spring/three'
+import { useMemo } from 'react'
+import { type ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
 import { generateAllQuads } from '../../utils/greedyMeshing'
-import { type MaterialType, getMaterialColor } from '../../utils/materials'
+import { type MaterialType, type OpacityClass, MATERIALS, TRANSPARENT_OPACITY, getMaterialColor } from '../../utils/materials'
 import { Grid } from '../../utils/Grid'
+import { type BoardSize, type Position, type WaterState, MAX_WATER_LEVEL, getBoardBounds } from '../../engine'
 
 interface OptimizedBlocksProps {
   boardState: Map<string, MaterialType>
+  water: WaterState
+  boardSize: BoardSize
   wireframe?: boolean
+  onBlockHover?: (hit: BoardHit) => void
+  onBlockClick?: (hit: BoardHit) => void
+  onBlockContextMenu?: (hit: BoardHit, event: MouseEvent) => void
+}
+
+// A pointed-at face: the block it belongs to and the empty cell it looks into
+export interface BoardHit {
+  block: Position
+  cell: Position
+}
+
+// Pointer travel (in pixels) past which a press is a camera drag rather than a click
+const CLICK_MAX_DELTA = 4
+
+// Height of a full (source level) water surface, kept below the block top
+const WATER_SURFACE_HEIGHT = 0.85
+
+const WATER_SIDES: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+
+// Build water as cells whose height follows their flow level; columns with water above stay full height
+function createWaterGeometry(water: WaterState, boardState: Map<string, MaterialType>): THREE.BufferGeometry {
+  const positions: number[] = []
+  const indices: number[] = []
+
+  const getHeight = (x: number, y: number, z: number): number => {
+    if (water.has(`${x},${y + 1},${z}`)) return 1
+    const cell = water.get(`${x},${y},${z}`)
+    return cell ? WATER_SURFACE_HEIGHT * cell.level / MAX_WATER_LEVEL : 0
+  }
+
+  const pushQuad = (corners: Array<[number, number, number]>) => {
+    const baseIndex = positions.length / 3
+    corners.forEach((corner) => positions.push(...corner))
+    indices.push(baseIndex, baseIndex + 1, baseIndex + 2, baseIndex, baseIndex + 2, baseIndex + 3)
+  }
+
+  for (const key of water.keys()) {
+    const [x, y, z] = key.split(',').map(Number)
+    const bottomY = y - 0.5
+    const topY = bottomY + getHeight(x, y, z)
+
+    if (!water.has(`${x},${y + 1},${z}`)) {
+      pushQuad([[x - 0.5, topY, z - 0.5], [x + 0.5, topY, z - 0.5], [x + 0.5, topY, z + 0.5], [x - 0.5, topY, z + 0.5]])
+    }
+    if (y > 0 && !water.has(`${x},${y - 1},${z}`) && !boardState.has(`${x},${y - 1},${z}`)) {
+      pushQuad([[x - 0.5, bottomY, z - 0.5], [x - 0.5, bottomY, z + 0.5], [x + 0.5, bottomY, z + 0.5], [x + 0.5, bottomY, z - 0.5]])
+    }
+
+    for (const [dx, dz] of WATER_SIDES) {
+      const neighborKey = `${x + dx},${y},${z + dz}`
+      const neighbor = boardState.get(neighborKey)
+      if (neighbor && MATERIALS[neighbor].opacity === 'opaque') continue
+
+      // Only the part above lower neighbouring water shows
+      const fromY = water.has(neighborKey) ? bottomY + getHeight(x + dx, y, z + dz) : bottomY
+      if (fromY >= topY) continue
+
+      // Side at the boundary, spanning the perpendicular axis
+      const sideX = x + dx * 0.5
+      const sideZ = z + dz * 0.5
+      const [spanX, spanZ] = dx === 0 ? [0.5, 0] : [0, 0.5]
+      pushQuad([
+        [sideX - spanX, fromY, sideZ - spanZ],
+        [sideX + spanX, fromY, sideZ + spanZ],
+        [sideX + spanX, topY, sideZ + spanZ],
+        [sideX - spanX, topY, sideZ - spanZ],
+      ])
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  geometry.setIndex(indices)
+  geometry.computeBoundingSphere()
+  geometry.computeVertexNormals()
+  return geometry
 }
 
 export default function OptimizedBlocks({ 
   boardState, 
-  wireframe = false 
+  water,
+  boardSize,
+  wireframe = false,
+  onBlockHover,
+  onBlockClick,
+  onBlockContextMenu,
 }: OptimizedBlocksProps) {
-  // Track previous water block count to detect new water blocks
-  const prevWaterBlockCountRef = useRef(0)
-  
   // Convert Map to Grid for greedy meshing if needed, or just pass Map if generateAllQuads handles it
   // generateAllQuads accepts Map, so we can pass it directly.
   // But wait, I refactored generateAllQuads to prefer Grid or Map.
@@ -26,8 +107,11 @@ export default function OptimizedBlocks({
   
   // Group quads by material and create separate geometries for each material
   const materialGeometries = useMemo(() => {
-    // Pass boardState directly, it's a Map
-    const quads = generateAllQuads(boardState)
+    // Water is drawn from the simulation instead (see createWaterGeometry)
+    const solidState = new Map(
+      Array.from(boardState).filter(([, material]) => MATERIALS[material].opacity !== 'liquid')
+    )
+    const quads = generateAllQuads(solidState)
     
     // Group quads by material
     const quadsByMaterial = new Map<MaterialType, typeof quads>()
@@ -186,124 +270,6 @@ export default function OptimizedBlocks({
         )
       }
       
-      // Generate gap-filling quads for blocks adjacent to water
-      // Water blocks are scaled to 0.95 height and positioned at -0.05
-      // So the top of water blocks is at: -0.05 + 0.5*0.95 = 0.425 (relative to block center)
-      const WATER_TOP_Y = 0.425
-      const BLOCK_TOP_Y = 0.5
-      
-      // Helper function to check if a neighbor block is water
-      const isNeighborWater = (x: number, y: number, z: number, dir: 'front' | 'back' | 'left' | 'right'): boolean => {
-        let neighborKey: string
-        switch (dir) {
-          case 'front':
-            neighborKey = `${x},${y},${z + 1}`
-            break
-          case 'back':
-            neighborKey = `${x},${y},${z - 1}`
-            break
-          case 'right':
-            neighborKey = `${x + 1},${y},${z}`
-            break
-          case 'left':
-            neighborKey = `${x - 1},${y},${z}`
-            break
-        }
-        return boardState.get(neighborKey) === 'water'
-      }
-      
-      // Find all blocks of this material that are adjacent to water
-      const gapQuads: Array<{ direction: 'front' | 'back' | 'left' | 'right', blockX: number, blockY: number, blockZ: number }> = []
-      
-      for (const [key, mat] of boardState.entries()) {
-        if (mat !== material || mat === 'water') continue
-        
-        const [x, y, z] = key.split(',').map(Number)
-        
-        // Check each vertical direction
-        const directions: Array<'front' | 'back' | 'left' | 'right'> = ['front', 'back', 'left', 'right']
-        for (const dir of directions) {
-          if (isNeighborWater(x, y, z, dir)) {
-            gapQuads.push({ direction: dir, blockX: x, blockY: y, blockZ: z })
-          }
-        }
-      }
-      
-      // Generate gap quads - these fill the space from water top to block top
-      for (const gapQuad of gapQuads) {
-        const { direction, blockX, blockY, blockZ } = gapQuad
-        const waterTopY = blockY + WATER_TOP_Y
-        const blockTopY = blockY + BLOCK_TOP_Y
-        
-        let gapCorners: [number, number, number][]
-        
-        switch (direction) {
-          case 'front':
-            // Face is at z + 0.5, spans from water top to block top
-            gapCorners = [
-              [blockX - 0.5, waterTopY, blockZ + 0.5],
-              [blockX + 0.5, waterTopY, blockZ + 0.5],
-              [blockX + 0.5, blockTopY, blockZ + 0.5],
-              [blockX - 0.5, blockTopY, blockZ + 0.5],
-            ]
-            break
-          case 'back':
-            // Face is at z - 0.5
-            gapCorners = [
-              [blockX - 0.5, waterTopY, blockZ - 0.5],
-              [blockX - 0.5, blockTopY, blockZ - 0.5],
-              [blockX + 0.5, blockTopY, blockZ - 0.5],
-              [blockX + 0.5, waterTopY, blockZ - 0.5],
-            ]
-            break
-          case 'right':
-            // Face is at x + 0.5
-            gapCorners = [
-              [blockX + 0.5, waterTopY, blockZ - 0.5],
-              [blockX + 0.5, blockTopY, blockZ - 0.5],
-              [blockX + 0.5, blockTopY, blockZ + 0.5],
-              [blockX + 0.5, waterTopY, blockZ + 0.5],
-            ]
-            break
-          case 'left':
-            // Face is at x - 0.5
-            gapCorners = [
-              [blockX - 0.5, waterTopY, blockZ - 0.5],
-              [blockX - 0.5, waterTopY, blockZ + 0.5],
-              [blockX - 0.5, blockTopY, blockZ + 0.5],
-              [blockX - 0.5, blockTopY, blockZ - 0.5],
-            ]
-            break
-        }
-        
-        // Add vertices for the gap quad
-        const gapBaseIndex = vertexIndex
-        for (const corner of gapCorners) {
-          positions.push(corner[0], corner[1], corner[2])
-          vertexIndex++
-        }
-        
-        // Add indices for two triangles (same winding as regular front face)
-        const gapV0 = gapBaseIndex
-        const gapV1 = gapBaseIndex + 1
-        const gapV2 = gapBaseIndex + 2
-        const gapV3 = gapBaseIndex + 3
-        
-        // Use same winding as the corresponding direction
-        if (direction === 'front' || direction === 'right') {
-          indices.push(
-            gapV0, gapV1, gapV2,
-            gapV0, gapV2, gapV3
-          )
-        } else {
-          // back and left use reverse winding
-          indices.push(
-            gapV0, gapV3, gapV2,
-            gapV0, gapV2, gapV1
-          )
-        }
-      }
-      
       const geom = new THREE.BufferGeometry()
       geom.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
       geom.setIndex(indices)
@@ -318,47 +284,81 @@ export default function OptimizedBlocks({
     return geometries
   }, [boardState])
   
-  // Count water blocks for animation trigger
-  const waterBlockCount = useMemo(() => {
-    let count = 0
-    boardState.forEach((material) => {
-      if (material === 'water') count++
-    })
-    return count
-  }, [boardState])
+  // Water surfaces at the height of their flow level
+  const waterGeometry = useMemo(() => createWaterGeometry(water, boardState), [water, boardState])
   
-  // Animate water blocks height from 1 to 0.8
-  // Scale from bottom: when scaleY goes from 1 to 0.8, we need to adjust position
-  // to keep the bottom at the same level
-  const [waterSpring, waterApi] = useSpring(() => ({
-    scaleY: 1,
-    positionY: 0, // Position adjustment to scale from bottom
-    config: { mass: 1, tension: 200, friction: 25 },
-  }), [])
-  
-  // Trigger animation when new water blocks are added
-  useEffect(() => {
-    if (waterBlockCount > prevWaterBlockCountRef.current) {
-      // New water blocks added - animate to 0.8
-      // When scaling from 1 to 0.8, move down by (1 - 0.8) / 2 = 0.1
-      // to keep bottom at ground level
-      waterApi.start({ 
-        scaleY: 0.95,
-        positionY: -0.05, // Move down to compensate for scaling from center
-      })
-    }
-    prevWaterBlockCountRef.current = waterBlockCount
-  }, [waterBlockCount, waterApi])
+  // Outline of the board footprint at ground level (islands and masked terrain leave parts of it empty)
+  const footprintGeometry = useMemo(() => {
+    const { minX, maxX, minZ, maxZ } = getBoardBounds(boardSize)
+    const corners: Array<[number, number]> = [
+      [minX - 0.5, minZ - 0.5],
+      [maxX + 0.5, minZ - 0.5],
+      [maxX + 0.5, maxZ + 0.5],
+      [minX - 0.5, maxZ + 0.5],
+    ]
+    const positions: number[] = []
+    corners.forEach(([x, z], index) => {
+      const [nextX, nextZ] = corners[(index + 1) % corners.length]
+      positions.push(x, -0.5, z, nextX, -0.5, nextZ)
+    })
+    const geom = new THREE.BufferGeometry()
+    geom.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+    return geom
+  }, [boardSize])
   
-  // Separate water blocks from other materials
-  const waterGeometries = materialGeometries.filter(({ material }) => material === 'water')
-  const otherGeometries = materialGeometries.filter(({ material }) => material !== 'water')
+  // Separate glass blocks from opaque materials
+  const getGeometries = (opacity: OpacityClass) =>
+    materialGeometries.filter(({ material }) => MATERIALS[material].opacity === opacity)
+  const transparentGeometries = getGeometries('transparent')
+  const otherGeometries = getGeometries('opaque')
+
+  // The hit point lies on the face between a block and the cell next to it: the block is whichever side holds one
+  const getHit = (event: ThreeEvent<PointerEvent | MouseEvent>): BoardHit | null => {
+    if (!event.face) return null
+    const point = event.object.worldToLocal(event.point.clone())
+    const normal = event.face.normal
+    const [behind, ahead] = [-0.5, 0.5].map((step): Position => [
+      Math.round(point.x + normal.x * step),
+      Math.round(point.y + normal.y * step),
+      Math.round(point.z + normal.z * step),
+    ])
+    if (boardState.has(behind.join(','))) return { block: behind, cell: ahead }
+    if (boardState.has(ahead.join(','))) return { block: ahead, cell: behind }
+    return null
+  }
+
+  // Shared by every block mesh; only the nearest hit is reported
+  const pointerHandlers = {
+    onPointerMove: (event: ThreeEvent<PointerEvent>) => {
+      if (!onBlockHover) return
+      event.stopPropagation()
+      const hit = getHit(event)
+      if (hit) onBlockHover(hit)
+    },
+    onClick: (event: ThreeEvent<MouseEvent>) => {
+      if (!onBlockClick || event.delta > CLICK_MAX_DELTA) return
+      event.stopPropagation()
+      const hit = getHit(event)
+      if (hit) onBlockClick(hit)
+    },
+    onContextMenu: (event: ThreeEvent<MouseEvent>) => {
+      if (!onBlockContextMenu) return
+      event.stopPropagation()
+      event.nativeEvent.preventDefault()
+      const hit = getHit(event)
+      if (hit) onBlockContextMenu(hit, event.nativeEvent)
+    },
+  }
   
   return (
     <group>
+      <lineSegments geometry={footprintGeometry}>
+        <lineBasicMaterial color="#ffffff" transparent opacity={0.25} />
+      </lineSegments>
+      
       {/* Render non-water blocks normally */}
       {otherGeometries.map(({ material, geometry }, index) => (
-        <mesh key={`other-${index}`} geometry={geometry} receiveShadow castShadow>
+        <mesh key={`other-${index}`} geometry={geometry} receiveShadow castShadow {...pointerHandlers}>
           <meshStandardMaterial
             color={getMaterialColor(material)}
             wireframe={wireframe}
@@ -366,27 +366,29 @@ export default function OptimizedBlocks({
           />
         </mesh>
       ))}
-      
-      {/* Render water blocks with animated scale from bottom */}
-      {waterGeometries.map(({ material, geometry }, index) => (
-        <a.group
-          key={`water-${index}`}
-          position-y={waterSpring.positionY}
-        >
-          <a.mesh 
-            geometry={geometry} 
-            receiveShadow 
-            castShadow
-            scale-y={waterSpring.scaleY}
-          >
-            <meshStandardMaterial
-              color={getMaterialColor(material)}
-              wireframe={wireframe}
-              side={THREE.DoubleSide}
-            />
-          </a.mesh>
-        </a.group>
+
+      {/* Render glass after opaque blocks so they show through it */}
+      {transparentGeometries.map(({ material, geometry }, index) => (
+        <mesh key={`transparent-${index}`} geometry={geometry} receiveShadow {...pointerHandlers}>
+          <meshStandardMaterial
+            color={getMaterialColor(material)}
+            wireframe={wireframe}
+            side={THREE.DoubleSide}
+            transparent
+            opacity={TRANSPARENT_OPACITY}
+            depthWrite={false}
+          />
+        </mesh>
       ))}
+      
+      {/* Render water with partial-height surfaces */}
+      <mesh geometry={waterGeometry} receiveShadow {...pointerHandlers}>
+        <meshStandardMaterial
+          color={getMaterialColor('water')}
+          wireframe={wireframe}
+          side={THREE.DoubleSide}
+        />
+      </mesh>
     </group>
   )
 }
@@ -74,12 +74,6 @@ export default function Tree({
     }
   }, [treeId, nodes])
 
-  // Check if trunk exists
-  if (!trunkNode) {
-    console.warn(`Tree trunk for tree ${treeId} not found in GLTF. Available nodes:`, Object.keys(nodes))
-    return null
-  }
-
   // Random delay for show-up animation (25ms to 170ms)
   const showUpDelay = useMemo(() => 50 + Math.random() * 250, [])
 
@@ -92,18 +86,27 @@ export default function Tree({
   }), [showUpDelay])
 
   // Trigger shrink animation when removing prop changes to true
+  // (and grow back if the removal is cancelled, e.g. by undo)
+  const wasRemovingRef = useRef(false)
   useEffect(() => {
     if (removing) {
+      wasRemovingRef.current = true
       api.start({
         to: { scale: 0 },
         config: { mass: 1, tension: 170, friction: 18 },
-        onRest: () => {
+        onRest: ({ finished }) => {
           // Animation complete, remove the tree
-          if (onRemoveComplete) {
+          if (finished && onRemoveComplete) {
             onRemoveComplete()
           }
         },
       })
+    } else if (wasRemovingRef.current) {
+      wasRemovingRef.current = false
+      api.start({
+        to: { scale: 1 },
+        config: { mass: 1, tension: 170, friction: 18 },
+      })
     }
   }, [removing, api, onRemoveComplete])
 
@@ -127,6 +130,12 @@ export default function Tree({
     })
   })
 
+  // Check if trunk exists
+  if (!trunkNode) {
+    console.warn(`Tree trunk for tree ${treeId} not found in GLTF. Available nodes:`, Object.keys(nodes))
+    return null
+  }
+
   return (
     <a.group ref={group} position={position} rotation={rotation} scale={springs.scale}>
       {/* Trunk */}
@@ -23,6 +23,8 @@ type DayNightCycleProviderProps = {
   speedMultiplier: number
   isPaused: boolean
   onStateChange?: (state: DayNightCycleState) => void
+  // Jump to this hour whenever a new object is passed (e.g. when loading a save)
+  hourOverride?: { hour: number } | null
 }
 
 const DAY_START_HOUR = 8
@@ -45,6 +47,7 @@ export function DayNightCycleProvider({
   speedMultiplier,
   isPaused,
   onStateChange,
+  hourOverride,
 }: DayNightCycleProviderProps) {
   const stateRef = useRef<DayNightCycleState>(initialState)
   const listenersRef = useRef(new Set<() => void>())
@@ -64,6 +67,12 @@ export function DayNightCycleProvider({
     pausedRef.current = isPaused
   }, [isPaused])
 
+  useEffect(() => {
+    if (hourOverride) {
+      cycleTimeRef.current = (hourOverride.hour / 24) * cycleDuration
+    }
+  }, [hourOverride])
+
   const notify = useCallback(() => {
     listenersRef.current.forEach((listener) => listener())
   }, [])
@@ -0,0 +1,398 @@
+import { Random, createSeed } from '../utils/random'
+import { type ShapeDefinition, NO_ROTATION, addShapeDefinition } from './shapes'
+import { getKickPositions } from './kicks'
+import { settleFallingBlocks, getHighestY } from './gravity'
+import { collapseUnsupported } from './integrity'
+import { DEMOLISH_COST, evaluateDemolition, getDemolishedBoard } from './demolition'
+import {
+  type GameState,
+  type GameAction,
+  type Position,
+  type Rotation,
+  type RotationAxis,
+  type RotationDirection,
+  type Angle,
+  type PlacementResult,
+  type ActiveTetromino,
+  type GameSnapshot,
+  type QueueItem,
+} from './types'
+import {
+  getTetrominoBlockPositions,
+  hasCollision,
+  isWithinHorizontalRange,
+  evaluatePlacement,
+  calculateLandingY,
+} from './placement'
+import {
+  DISCARD_COST,
+  DISCARD_CHARGE_PER_DROP,
+  MAX_DISCARD_CHARGE,
+  createInitialQueue,
+  consumeQueueItem,
+} from './queue'
+import { type QueueGeneratorId, DEFAULT_QUEUE_GENERATOR, drawTetromino } from './queueGenerators'
+import { type WorldConfig, WORLD_PRESETS, DEFAULT_WORLD_PRESET, createWorldBoard } from './worldConfig'
+import { getScoreBreakdown, createScoreEvent } from './scoring'
+
+// Stream the queue draws from; other systems split their own streams off the seed
+export function getQueueRandom(seed: number): Random {
+  return new Random(seed).split('queue')
+}
+
+export function createInitialGameState(
+  world: WorldConfig = WORLD_PRESETS[DEFAULT_WORLD_PRESET].config,
+  seed: number = createSeed(),
+  queueGenerator: QueueGeneratorId = DEFAULT_QUEUE_GENERATOR,
+  customShapes: ShapeDefinition[] = []
+): GameState {
+  const queueRandom = getQueueRandom(seed)
+  const { queue, pending } = createInitialQueue(queueGenerator, queueRandom, customShapes)
+  const boardState = createWorldBoard(world)
+
+  return {
+    boardSize: { ...world.size },
+    boardState,
+    // Base board level, or the top of a starter scene
+    highestY: getHighestY(boardState),
+    queue,
+    selectedIndex: null,
+    activeTetromino: null,
+    droppingTetromino: null,
+    seed,
+    queueRandomState: queueRandom.state,
+    queueGenerator,
+    queuePending: pending,
+    customShapes,
+    heldPiece: null,
+    holdUsed: false,
+    discardCharge: DISCARD_COST,
+    score: getScoreBreakdown(boardState, seed),
+    lastScoreEvent: null,
+    lastCollapse: null,
+  }
+}
+
+// Position the active tetromino would land on if dropped now
+export function getLandingPosition(state: GameState, tetromino: ActiveTetromino): Position {
+  const landingY = calculateLandingY(
+    tetromino.type,
+    tetromino.position,
+    tetromino.rotation,
+    state.boardSize,
+    state.boardState
+  )
+  return [tetromino.position[0], landingY, tetromino.position[2]]
+}
+
+// Check the active tetromino's landing position against the material rules
+export function evaluateLanding(state: GameState): PlacementResult {
+  const { activeTetromino } = state
+  if (!activeTetromino) return { valid: false, reason: 'No active tetromino', blocks: [], verdicts: [] }
+
+  return evaluatePlacement(
+    activeTetromino.type,
+    getLandingPosition(state, activeTetromino),
+    activeTetromino.rotation,
+    activeTetromino.material,
+    state.boardSize,
+    state.boardState
+  )
+}
+
+// Bounds and collision only, material rules are checked at landing
+function canOccupy(
+  state: GameState,
+  tetromino: ActiveTetromino,
+  position: Position,
+  rotation: Rotation
+): boolean {
+  const blockPositions = getTetrominoBlockPositions(tetromino.type, position, rotation)
+  return !hasCollision(blockPositions, state.boardState) &&
+    isWithinHorizontalRange(blockPositions, state.boardSize, state.boardState)
+}
+
+// Position tetromino's central block (first block) at board center [1, Y, 1]
+// Spawn 5 blocks above highest block
+export function getSpawnPosition(highestY: number): Position {
+  return [1, Math.max(1, highestY) + 5, 1]
+}
+
+function spawnTetromino(state: GameState, item: QueueItem): ActiveTetromino {
+  return {
+    type: item.type,
+    position: getSpawnPosition(state.highestY),
+    rotation: NO_ROTATION,
+    material: item.material,
+  }
+}
+
+// Remove queue slot `index` and append the next tetromino from the queue generator
+// (drawn from the queue's stream so the same seed and moves always give the same pieces)
+function refillQueueSlot(
+  state: GameState,
+  index: number
+): Pick<GameState, 'queue' | 'queueRandomState' | 'queuePending'> {
+  const queueRandom = new Random(state.queueRandomState)
+  const refill = drawTetromino(state.queueGenerator, state.queuePending, queueRandom, state.customShapes)
+
+  return {
+    queue: consumeQueueItem(state.queue, index, refill.type),
+    queueRandomState: queueRandom.state,
+    queuePending: refill.pending,
+  }
+}
+
+function selectTetromino(state: GameState, index: number): GameState {
+  // Can't select if one is already active or still dropping
+  if (state.activeTetromino !== null || state.droppingTetromino !== null) return state
+
+  const queueItem = state.queue[index]
+  if (!queueItem) return state
+
+  return {
+    ...state,
+    activeTetromino: spawnTetromino(state, queueItem),
+    selectedIndex: index,
+  }
+}
+
+function moveTetromino(state: GameState, deltaX: number, deltaZ: number): GameState {
+  const { activeTetromino } = state
+  if (!activeTetromino) return state
+
+  const newPosition: Position = [
+    activeTetromino.position[0] + deltaX,
+    activeTetromino.position[1],
+    activeTetromino.position[2] + deltaZ,
+  ]
+  if (!canOccupy(state, activeTetromino, newPosition, activeTetromino.rotation)) {
+    return state // Don't move if invalid
+  }
+
+  return { ...state, activeTetromino: { ...activeTetromino, position: newPosition } }
+}
+
+// Rotate active tetromino a quarter turn around one axis, kicked off walls and blocks if needed
+function rotateTetromino(state: GameState, axis: RotationAxis, direction: RotationDirection): GameState {
+  const { activeTetromino } = state
+  if (!activeTetromino) return state
+
+  const newRotation: Rotation = {
+    ...activeTetromino.rotation,
+    [axis]: ((activeTetromino.rotation[axis] + 90 * direction + 360) % 360) as Angle,
+  }
+  const kickedPosition = getKickPositions(activeTetromino.type, activeTetromino.position)
+    .find((position) => canOccupy(state, activeTetromino, position, newRotation))
+  if (!kickedPosition) return state // Don't rotate if no kick fits
+
+  return { ...state, activeTetromino: { ...activeTetromino, position: kickedPosition, rotation: newRotation } }
+}
+
+// Start dropping the active tetromino to its landing position (the caller animates it)
+function dropTetromino(state: GameState): GameState {
+  const { activeTetromino, selectedIndex } = state
+  if (!activeTetromino) return state
+  if (!evaluateLanding(state).valid) return state
+
+  return {
+    ...state,
+    activeTetromino: null,
+    droppingTetromino: {
+      type: activeTetromino.type,
+      startPosition: activeTetromino.position,
+      endPosition: getLandingPosition(state, activeTetromino),
+      rotation: activeTetromino.rotation,
+      material: activeTetromino.material,
+      queueIndex: selectedIndex,
+    },
+  }
+}
+
+// Commit the dropped tetromino's blocks into the board, score them and refill the queue
+function completeDrop(state: GameState): GameState {
+  const { droppingTetromino } = state
+  if (!droppingTetromino) return state
+
+  const { type, endPosition, rotation, material, queueIndex } = droppingTetromino
+  const blockPositions = getTetrominoBlockPositions(type, endPosition, rotation)
+
+  // Add blocks to board state with their materials
+  const landedState = new Map(state.boardState)
+  blockPositions.forEach(([x, y, z]) => {
+    landedState.set(`${x},${y},${z}`, material)
+  })
+  // Sand cascades down through the stack, then whatever lost its load path gives way, before anything is scored
+  const { boardState, collapsed } = collapseUnsupported(settleFallingBlocks(landedState))
+  const score = getScoreBreakdown(boardState, state.seed)
+
+  return {
+    ...state,
+    // Pieces played from the hold slot leave the queue untouched
+    ...(queueIndex !== null ? refillQueueSlot(state, queueIndex) : {}),
+    boardState,
+    highestY: getHighestY(boardState),
+    selectedIndex: null,
+    activeTetromino: null,
+    droppingTetromino: null,
+    holdUsed: false,
+    discardCharge: Math.min(MAX_DISCARD_CHARGE, state.discardCharge + DISCARD_CHARGE_PER_DROP),
+    score,
+    lastScoreEvent: createScoreEvent(state.score, score, endPosition),
+    lastCollapse: collapsed.length > 0 ? { blocks: collapsed } : null,
+  }
+}
+
+// Picks only the snapshot fields, so richer objects (e.g. saved worlds) can be passed in
+export function getGameSnapshot(state: GameSnapshot): GameSnapshot {
+  return {
+    boardSize: state.boardSize,
+    boardState: state.boardState,
+    queue: state.queue,
+    highestY: state.highestY,
+    seed: state.seed,
+    queueRandomState: state.queueRandomState,
+    queueGenerator: state.queueGenerator,
+    queuePending: state.queuePending,
+    customShapes: state.customShapes,
+    heldPiece: state.heldPiece,
+    discardCharge: state.discardCharge,
+  }
+}
+
+// Replace the board and queue with a snapshot, discarding any piece in play
+function restoreSnapshot(state: GameState, snapshot: GameSnapshot): GameState {
+  return {
+    ...state,
+    ...getGameSnapshot(snapshot),
+    selectedIndex: null,
+    activeTetromino: null,
+    droppingTetromino: null,
+    holdUsed: false,
+    score: getScoreBreakdown(snapshot.boardState, snapshot.seed),
+    lastScoreEvent: null,
+    lastCollapse: null,
+  }
+}
+
+// Switch how future refills are drawn; pieces already in the queue stay
+function setQueueGenerator(state: GameState, generator: QueueGeneratorId): GameState {
+  if (state.queueGenerator === generator) return state
+  return { ...state, queueGenerator: generator, queuePending: [] }
+}
+
+// Let the queue deal a shape drawn in the shape editor from its next batch on
+function addShape(state: GameState, shape: ShapeDefinition): GameState {
+  const customShapes = addShapeDefinition(state.customShapes, shape)
+  if (customShapes === state.customShapes) return state
+  return { ...state, customShapes }
+}
+
+// Swap the active tetromino with the held one (once per drop)
+// With an empty hold slot the active piece is set aside and the next one can be selected
+function holdTetromino(state: GameState): GameState {
+  const { activeTetromino, selectedIndex, heldPiece } = state
+  if (!activeTetromino || state.holdUsed) return state
+
+  return {
+    ...state,
+    // A piece taken from the queue frees its slot
+    ...(selectedIndex !== null ? refillQueueSlot(state, selectedIndex) : {}),
+    heldPiece: { type: activeTetromino.type, material: activeTetromino.material },
+    holdUsed: true,
+    selectedIndex: null,
+    activeTetromino: heldPiece ? spawnTetromino(state, heldPiece) : null,
+  }
+}
+
+// Throw away a queued tetromino for DISCARD_COST charge (cancels it if it is the active one)
+function discardTetromino(state: GameState, index: number): GameState {
+  if (state.droppingTetromino !== null) return state
+  if (!state.queue[index] || state.discardCharge < DISCARD_COST) return state
+
+  const { selectedIndex } = state
+  const discardsActive = selectedIndex === index
+
+  return {
+    ...state,
+    ...refillQueueSlot(state, index),
+    discardCharge: state.discardCharge - DISCARD_COST,
+    // Later slots shift down by one
+    selectedIndex: discardsActive || selectedIndex === null
+      ? null
+      : selectedIndex > index ? selectedIndex - 1 : selectedIndex,
+    activeTetromino: discardsActive ? null : state.activeTetromino,
+  }
+}
+
+// Where the item at `index` ends up after moving the item at `from` to `to`
+function getReorderedIndex(index: number, from: number, to: number): number {
+  if (index === from) return to
+  if (from < index && index <= to) return index - 1
+  if (to <= index && index < from) return index + 1
+  return index
+}
+
+// Move a queued tetromino to another slot, keeping the active piece's slot in sync
+function reorderQueue(state: GameState, from: number, to: number): GameState {
+  if (state.droppingTetromino !== null) return state
+  if (from === to || !state.queue[from] || !state.queue[to]) return state
+
+  const queue = [...state.queue]
+  const [moved] = queue.splice(from, 1)
+  queue.splice(to, 0, moved)
+
+  return {
+    ...state,
+    queue,
+    selectedIndex: state.selectedIndex === null ? null : getReorderedIndex(state.selectedIndex, from, to),
+  }
+}
+
+// Remove a single block, paid for with discard charge
+function demolishBlock(state: GameState, position: Position): GameState {
+  if (!evaluateDemolition(state, position).valid) return state
+
+  const boardState = getDemolishedBoard(state.boardState, position)
+  const score = getScoreBreakdown(boardState, state.seed)
+
+  return {
+    ...state,
+    boardState,
+    highestY: getHighestY(boardState),
+    discardCharge: state.discardCharge - DEMOLISH_COST,
+    score,
+    lastScoreEvent: createScoreEvent(state.score, score, position),
+    lastCollapse: null,
+  }
+}
+
+// Pure state transition: returns the same state object when the action is rejected
+export function applyAction(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'select':
+      return selectTetromino(state, action.index)
+    case 'move':
+      return moveTetromino(state, action.deltaX, action.deltaZ)
+    case 'rotate':
+      return rotateTetromino(state, action.axis, action.direction)
+    case 'drop':
+      return dropTetromino(state)
+    case 'completeDrop':
+      return completeDrop(state)
+    case 'restore':
+      return restoreSnapshot(state, action.snapshot)
+    case 'setQueueGenerator':
+      return setQueueGenerator(state, action.generator)
+    case 'hold':
+      return holdTetromino(state)
+    case 'discard':
+      return discardTetromino(state, action.index)
+    case 'reorderQueue':
+      return reorderQueue(state, action.from, action.to)
+    case 'demolish':
+      return demolishBlock(state, action.position)
+    case 'addShape':
+      return addShape(state, action.shape)
+  }
+}
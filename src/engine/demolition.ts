@@ -0,0 +1,45 @@
+import { Grid } from '../utils/Grid'
+import { type MaterialType } from '../utils/materials'
+import { type GameState, type Position } from './types'
+import { getSupportDistances } from './integrity'
+import { settleFallingBlocks } from './gravity'
+
+// Removing a block costs charge from the same pool as discards (see queue)
+export const DEMOLISH_COST = 2
+
+// blocks are the ones that would lose their load path
+export type DemolitionResult =
+  | { valid: true }
+  | { valid: false; reason: string; blocks: Position[] }
+
+// Board with the block at position removed and any sand it held up settled
+export function getDemolishedBoard(boardState: Map<string, MaterialType>, position: Position): Map<string, MaterialType> {
+  const grid = new Grid(new Map(boardState))
+  grid.delete(...position)
+  return settleFallingBlocks(grid.getRawState())
+}
+
+// Check removing the block at position: it must exist, be paid for and leave everything else standing
+export function evaluateDemolition(
+  state: Pick<GameState, 'boardState' | 'droppingTetromino' | 'discardCharge'>,
+  position: Position
+): DemolitionResult {
+  if (!state.boardState.has(position.join(','))) {
+    return { valid: false, reason: 'No block to demolish there', blocks: [] }
+  }
+  if (state.droppingTetromino) {
+    return { valid: false, reason: 'Wait for the tetromino to land', blocks: [] }
+  }
+  if (state.discardCharge < DEMOLISH_COST) {
+    return { valid: false, reason: `Demolishing needs ${DEMOLISH_COST} charge`, blocks: [position] }
+  }
+
+  const remaining = getDemolishedBoard(state.boardState, position)
+  const distances = getSupportDistances(remaining)
+  const unsupported = Array.from(remaining.keys()).filter((key) => !distances.has(key)).map(Grid.fromKey)
+  if (unsupported.length > 0) {
+    return { valid: false, reason: 'Other blocks rest on this one', blocks: unsupported }
+  }
+
+  return { valid: true }
+}
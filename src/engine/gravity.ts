@@ -0,0 +1,38 @@
+import { type MaterialType, MATERIALS } from '../utils/materials'
+
+function parseKey(key: string): [number, number, number] {
+  const [x, y, z] = key.split(',').map(Number)
+  return [x, y, z]
+}
+
+// Drop blocks of falling materials (sand) until something is below them or they reach ground level
+// Lower blocks settle first, so a falling column lands stacked in order and one settle is enough
+// Returns the same map when nothing moved
+export function settleFallingBlocks(boardState: Map<string, MaterialType>): Map<string, MaterialType> {
+  const falling = Array.from(boardState.entries())
+    .filter(([, material]) => MATERIALS[material].support.falls)
+    .map(([key, material]) => ({ position: parseKey(key), material }))
+    .sort((a, b) => a.position[1] - b.position[1])
+
+  let settled: Map<string, MaterialType> | null = null
+
+  for (const { position: [x, y, z], material } of falling) {
+    const board: Map<string, MaterialType> = settled ?? boardState
+    let landingY = y
+    while (landingY > 0 && !board.has(`${x},${landingY - 1},${z}`)) {
+      landingY--
+    }
+    if (landingY === y) continue
+
+    settled = settled ?? new Map(boardState)
+    settled.delete(`${x},${y},${z}`)
+    settled.set(`${x},${landingY},${z}`, material)
+  }
+
+  return settled ?? boardState
+}
+
+// Top of the stack, never below the base board level
+export function getHighestY(boardState: Map<string, MaterialType>): number {
+  return Math.max(0, ...Array.from(boardState.keys(), (key) => parseKey(key)[1]))
+}
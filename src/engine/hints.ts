@@ -0,0 +1,147 @@
+import { type MaterialType } from '../utils/materials'
+import { type TetrominoType, getMaterialFromType } from './shapes'
+import { type GameState, type Position } from './types'
+import { getTetrominoBlockPositions } from './placement'
+import { settleFallingBlocks } from './gravity'
+import { type ValidMove, findValidMovesForType } from './solver'
+import { type ScoreBreakdown, getScoreBreakdown, getScoreTotal } from './scoring'
+
+// Ranks the valid placements of a tetromino to suggest a move
+// Heuristics only compare candidates, their values don't need to share a scale
+
+export interface HintContext {
+  boardState: Map<string, MaterialType>
+  seed: number
+  score: ScoreBreakdown // Score of the board before the candidate is placed
+}
+
+type PlacementEvaluator = (blockPositions: Position[], material: MaterialType, context: HintContext) => number
+
+export interface PlacementHeuristic {
+  label: string
+  // Higher is better
+  evaluate: PlacementEvaluator
+  // Cheap stand-in for a costly evaluate: only the best HINT_SHORTLIST_SIZE candidates by it get evaluated
+  estimate?: PlacementEvaluator
+}
+
+export type HintHeuristicId = 'balanced' | 'support' | 'adjacency' | 'height' | 'score'
+
+// Candidates scored in full by heuristics with an estimate (scoring a whole board per candidate is slow)
+export const HINT_SHORTLIST_SIZE = 16
+
+export interface RankedMove {
+  move: ValidMove
+  value: number
+}
+
+const SIDE_OFFSETS: Position[] = [[1, 0, 0], [-1, 0, 0], [0, 0, 1], [0, 0, -1]]
+
+function hasBlock(
+  [x, y, z]: Position,
+  boardState: Map<string, MaterialType>,
+  pieceKeys: Set<string>
+): boolean {
+  const key = `${x},${y},${z}`
+  return boardState.has(key) || pieceKeys.has(key)
+}
+
+// Share of blocks resting directly on something, so pieces don't lean on floating rules
+function getSupport(blockPositions: Position[], boardState: Map<string, MaterialType>): number {
+  const pieceKeys = new Set(blockPositions.map((position) => position.join(',')))
+  const supported = blockPositions.filter(([x, y, z]) => hasBlock([x, y - 1, z], boardState, pieceKeys))
+  return supported.length / blockPositions.length
+}
+
+// Board faces touched by blocks of the same material
+function getAdjacency(
+  blockPositions: Position[],
+  material: MaterialType,
+  boardState: Map<string, MaterialType>
+): number {
+  let touching = 0
+  for (const [x, y, z] of blockPositions) {
+    for (const [dx, dy, dz] of [...SIDE_OFFSETS, [0, -1, 0] as Position]) {
+      if (boardState.get(`${x + dx},${y + dy},${z + dz}`) === material) touching++
+    }
+  }
+  return touching
+}
+
+// Lower placements keep the build compact
+function getLowness(blockPositions: Position[]): number {
+  return -Math.max(...blockPositions.map(([, y]) => y))
+}
+
+// The balanced heuristic without its score term
+function getBalancedEstimate(blockPositions: Position[], material: MaterialType, context: HintContext): number {
+  return getSupport(blockPositions, context.boardState) * 10 +
+    getAdjacency(blockPositions, material, context.boardState) +
+    getLowness(blockPositions)
+}
+
+function getScoreGain(blockPositions: Position[], material: MaterialType, context: HintContext): number {
+  const boardState = new Map(context.boardState)
+  blockPositions.forEach((position) => boardState.set(position.join(','), material))
+  return getScoreTotal(getScoreBreakdown(settleFallingBlocks(boardState), context.seed)) - getScoreTotal(context.score)
+}
+
+export const HINT_HEURISTICS: Record<HintHeuristicId, PlacementHeuristic> = {
+  // Weighs everything below, with support first since it is what players struggle with
+  balanced: {
+    label: 'Balanced',
+    evaluate: (blockPositions, material, context) =>
+      getBalancedEstimate(blockPositions, material, context) +
+      getScoreGain(blockPositions, material, context) * 0.5,
+    estimate: getBalancedEstimate,
+  },
+  support: {
+    label: 'Best support',
+    evaluate: (blockPositions, _material, context) => getSupport(blockPositions, context.boardState),
+  },
+  adjacency: {
+    label: 'Next to same material',
+    evaluate: (blockPositions, material, context) => getAdjacency(blockPositions, material, context.boardState),
+  },
+  height: {
+    label: 'Lowest',
+    evaluate: (blockPositions) => getLowness(blockPositions),
+  },
+  score: {
+    label: 'Most points',
+    evaluate: getScoreGain,
+    // Points come from joining blocks: houses, channels and roofs
+    estimate: (blockPositions, material, context) => getAdjacency(blockPositions, material, context.boardState),
+  },
+}
+
+export const HINT_HEURISTIC_IDS = Object.keys(HINT_HEURISTICS) as HintHeuristicId[]
+
+export const DEFAULT_HINT_HEURISTIC: HintHeuristicId = 'balanced'
+
+export function isHintHeuristicId(value: unknown): value is HintHeuristicId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(HINT_HEURISTICS, value)
+}
+
+// Valid placements of `type`, best first (ties keep the enumeration order)
+// Heuristics with an estimate only rank their shortlist
+export function rankPlacements(
+  state: Pick<GameState, 'boardSize' | 'boardState' | 'highestY' | 'seed' | 'score'>,
+  type: TetrominoType,
+  heuristic: PlacementHeuristic
+): RankedMove[] {
+  const material = getMaterialFromType(type)
+  const context: HintContext = { boardState: state.boardState, seed: state.seed, score: state.score }
+  const rank = (moves: ValidMove[], evaluate: PlacementEvaluator): RankedMove[] => moves
+    .map((move) => ({
+      move,
+      value: evaluate(getTetrominoBlockPositions(type, move.position, move.rotation), material, context),
+    }))
+    .sort((a, b) => b.value - a.value)
+
+  let moves = findValidMovesForType(state, type)
+  if (heuristic.estimate) {
+    moves = rank(moves, heuristic.estimate).slice(0, HINT_SHORTLIST_SIZE).map(({ move }) => move)
+  }
+  return rank(moves, heuristic.evaluate)
+}
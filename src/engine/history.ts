@@ -0,0 +1,56 @@
+// Bounded undo/redo stacks of snapshots (most recent last)
+export interface History<T> {
+  past: T[]
+  future: T[]
+}
+
+// Maximum number of undo steps kept
+export const HISTORY_LIMIT = 50
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] }
+}
+
+// Record the state before a change; a new change invalidates the redo stack
+export function recordHistory<T>(
+  history: History<T>,
+  snapshot: T,
+  limit: number = HISTORY_LIMIT
+): History<T> {
+  return {
+    past: [...history.past, snapshot].slice(-limit),
+    future: [],
+  }
+}
+
+// Step back: returns the snapshot to restore, or null when there is nothing to undo
+export function undoHistory<T>(
+  history: History<T>,
+  current: T
+): { history: History<T>; snapshot: T } | null {
+  if (history.past.length === 0) return null
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, current],
+    },
+    snapshot: history.past[history.past.length - 1],
+  }
+}
+
+// Step forward: returns the snapshot to restore, or null when there is nothing to redo
+export function redoHistory<T>(
+  history: History<T>,
+  current: T
+): { history: History<T>; snapshot: T } | null {
+  if (history.future.length === 0) return null
+
+  return {
+    history: {
+      past: [...history.past, current],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: history.future[history.future.length - 1],
+  }
+}
@@ -0,0 +1,16 @@
+export * from './types'
+export * from './shapes'
+export * from './kicks'
+export * from './gravity'
+export * from './water'
+export * from './integrity'
+export * from './demolition'
+export * from './placement'
+export * from './queue'
+export * from './queueGenerators'
+export * from './history'
+export * from './GameEngine'
+export * from './worldConfig'
+export * from './scoring'
+export * from './solver'
+export * from './hints'
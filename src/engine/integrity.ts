@@ -0,0 +1,200 @@
+import { type MaterialType, MATERIALS } from '../utils/materials'
+import { type Position } from './types'
+import { settleFallingBlocks } from './gravity'
+
+// Structural integrity: every block needs a load path to the ground. Resting on a block continues
+// that block's path, and a block may hang beside a same-material block one span step further out,
+// up to its material's maxSpan. Ground level blocks start a path at span 0
+
+export interface CollapsedBlock {
+  material: MaterialType
+  from: Position
+  to: Position | null // Where it fell to, null when it crumbled away
+}
+
+// Blocks that gave way when the board was last re-evaluated
+export interface CollapseEvent {
+  blocks: CollapsedBlock[]
+}
+
+const SIDE_STEPS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+
+function parseKey(key: string): Position {
+  const [x, y, z] = key.split(',').map(Number)
+  return [x, y, z]
+}
+
+// Cached by board: transitions never mutate a committed board, they build a new Map
+// Never change a Map after asking about it; check edited boards through a fresh copy
+const supportDistanceCache = new WeakMap<Map<string, MaterialType>, Map<string, number>>()
+
+// Span steps from the nearest load path of every supported block (unsupported blocks are missing)
+export function getSupportDistances(boardState: Map<string, MaterialType>): Map<string, number> {
+  const cached = supportDistanceCache.get(boardState)
+  if (cached) return cached
+
+  const distances = new Map<string, number>()
+  // 0-1 breadth-first search: resting on a block is free (front of the deque), spanning costs a step
+  const deque: string[] = []
+  for (const key of boardState.keys()) {
+    if (parseKey(key)[1] === 0) {
+      distances.set(key, 0)
+      deque.push(key)
+    }
+  }
+
+  while (deque.length > 0) {
+    const key = deque.shift()!
+    const distance = distances.get(key)!
+    const [x, y, z] = parseKey(key)
+
+    const aboveKey = `${x},${y + 1},${z}`
+    if (boardState.has(aboveKey) && (distances.get(aboveKey) ?? Infinity) > distance) {
+      distances.set(aboveKey, distance)
+      deque.unshift(aboveKey)
+    }
+
+    const material = boardState.get(key)!
+    if (distance + 1 > MATERIALS[material].support.maxSpan) continue
+    for (const [dx, dz] of SIDE_STEPS) {
+      const sideKey = `${x + dx},${y},${z + dz}`
+      if (boardState.get(sideKey) === material && (distances.get(sideKey) ?? Infinity) > distance + 1) {
+        distances.set(sideKey, distance + 1)
+        deque.push(sideKey)
+      }
+    }
+  }
+
+  supportDistanceCache.set(boardState, distances)
+  return distances
+}
+
+// Whether each block of a landing tetromino would have a load path, through its own blocks and the board's
+export function getTetrominoSupport(
+  blockPositions: Position[],
+  material: MaterialType,
+  boardState: Map<string, MaterialType>
+): boolean[] {
+  const boardDistances = getSupportDistances(boardState)
+  const { maxSpan } = MATERIALS[material].support
+  const keys = blockPositions.map((position) => position.join(','))
+  const distances = new Map<string, number>()
+
+  const getDistance = (key: string): number => {
+    if (keys.includes(key)) return distances.get(key) ?? Infinity
+    return boardDistances.get(key) ?? Infinity
+  }
+
+  // Relax until stable, pieces have a handful of blocks
+  let changed = true
+  while (changed) {
+    changed = false
+    blockPositions.forEach(([x, y, z], index) => {
+      let best = y === 0 ? 0 : getDistance(`${x},${y - 1},${z}`)
+      for (const [dx, dz] of SIDE_STEPS) {
+        const sideKey = `${x + dx},${y},${z + dz}`
+        const isSameMaterial = keys.includes(sideKey) || boardState.get(sideKey) === material
+        if (isSameMaterial && getDistance(sideKey) + 1 <= maxSpan) {
+          best = Math.min(best, getDistance(sideKey) + 1)
+        }
+      }
+      if (best < (distances.get(keys[index]) ?? Infinity)) {
+        distances.set(keys[index], best)
+        changed = true
+      }
+    })
+  }
+
+  return keys.map((key) => distances.has(key))
+}
+
+// Face-connected groups of the given blocks
+function getClusters(keys: string[]): Position[][] {
+  const remaining = new Set(keys)
+  const clusters: Position[][] = []
+  for (const start of keys) {
+    if (!remaining.has(start)) continue
+    remaining.delete(start)
+    const cluster: Position[] = []
+    const stack = [start]
+    while (stack.length > 0) {
+      const [x, y, z] = parseKey(stack.pop()!)
+      cluster.push([x, y, z])
+      for (const [dx, dy, dz] of [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]) {
+        const neighborKey = `${x + dx},${y + dy},${z + dz}`
+        if (remaining.delete(neighborKey)) stack.push(neighborKey)
+      }
+    }
+    clusters.push(cluster)
+  }
+  return clusters
+}
+
+// Let go of unsupported blocks until everything left stands: crumbling materials disappear, the others
+// drop as connected clusters until they rest on something. Returns the same map when nothing gave way
+export function collapseUnsupported(boardState: Map<string, MaterialType>): {
+  boardState: Map<string, MaterialType>
+  collapsed: CollapsedBlock[]
+} {
+  let board = boardState
+  const collapsed: CollapsedBlock[] = []
+  // Blocks that already fell, by where they are now, so a block falling again keeps one entry
+  const fallen = new Map<string, CollapsedBlock>()
+  const record = (material: MaterialType, from: Position, to: Position | null) => {
+    const earlier = fallen.get(from.join(','))
+    fallen.delete(from.join(','))
+    const block = earlier ?? { material, from, to }
+    block.to = to
+    if (!earlier) collapsed.push(block)
+    if (to) fallen.set(to.join(','), block)
+  }
+
+  for (;;) {
+    const distances = getSupportDistances(board)
+    const unsupported = Array.from(board.keys()).filter((key) => !distances.has(key))
+    if (unsupported.length === 0) break
+
+    const next = new Map(board)
+    const falling: string[] = []
+    for (const key of unsupported) {
+      const material = board.get(key)!
+      if (MATERIALS[material].support.collapse === 'crumble') {
+        next.delete(key)
+        record(material, parseKey(key), null)
+      } else {
+        falling.push(key)
+      }
+    }
+
+    // Lowest clusters first, so clusters resting on falling ones drop after them
+    const clusters = getClusters(falling).sort(
+      (a, b) => Math.min(...a.map(([, y]) => y)) - Math.min(...b.map(([, y]) => y))
+    )
+    for (const cluster of clusters) {
+      const materials = cluster.map((position) => next.get(position.join(','))!)
+      cluster.forEach((position) => next.delete(position.join(',')))
+
+      let drop = Infinity
+      for (const [x, y, z] of cluster) {
+        let fall = 0
+        while (y - fall > 0 && !next.has(`${x},${y - fall - 1},${z}`)) fall++
+        drop = Math.min(drop, fall)
+      }
+
+      cluster.forEach(([x, y, z], index) => {
+        const material = materials[index]
+        // Stuck clusters can't stand either
+        if (drop === 0) {
+          record(material, [x, y, z], null)
+          return
+        }
+        next.set(`${x},${y - drop},${z}`, material)
+        record(material, [x, y, z], [x, y - drop, z])
+      })
+    }
+
+    board = settleFallingBlocks(next)
+  }
+
+  return { boardState: board, collapsed }
+}
@@ -0,0 +1,89 @@
+import { type BuiltinTetrominoType, type TetrominoType, TETROMINO_SHAPES, getRotatedPositions } from './shapes'
+import { type Position } from './types'
+
+// Wall kicks: when a rotated tetromino doesn't fit where it is, these offsets are tried
+// in order and the first one that fits is taken (rotating in place always comes first)
+
+export type KickTable = Position[]
+
+// Step `distance` along X and Z, both directions
+function sideKicks(distance: number): KickTable {
+  return [[distance, 0, 0], [-distance, 0, 0], [0, 0, distance], [0, 0, -distance]]
+}
+
+function diagonalKicks(distance: number): KickTable {
+  return [
+    [distance, 0, distance], [-distance, 0, distance],
+    [distance, 0, -distance], [-distance, 0, -distance],
+  ]
+}
+
+// Lift one block, for pitch and roll swinging blocks into the stack below
+const LIFT_KICK: Position = [0, 1, 0]
+
+// Pieces at most two blocks long only ever swing one block out
+const SHORT_KICKS: KickTable = [...sideKicks(1), LIFT_KICK]
+
+// Three and four long pieces can swing two blocks out
+const LONG_KICKS: KickTable = [...sideKicks(1), ...sideKicks(2), LIFT_KICK]
+
+// Pieces wide in both directions swing out along X and Z at once when they turn around their corner
+const WIDE_KICKS: KickTable = [
+  ...sideKicks(1),
+  ...diagonalKicks(1),
+  ...sideKicks(2),
+  ...diagonalKicks(2),
+  LIFT_KICK,
+]
+
+export const KICK_TABLES: Record<BuiltinTetrominoType, KickTable> = {
+  GRASS_SQUARE: SHORT_KICKS,
+  GRASS_L: LONG_KICKS,
+  GRASS_T: SHORT_KICKS, // Turns around its center
+  GRASS_1X4: LONG_KICKS,
+  GRASS_STAIR: WIDE_KICKS,
+  BRICK_SINGLE: [], // Rotating a single block changes nothing
+  BRICK_VERTICAL: SHORT_KICKS,
+  BRICK_ARROW: SHORT_KICKS,
+  BRICK_ARK: WIDE_KICKS,
+  BRICK_2X3: LONG_KICKS,
+  WOOD_SINGLE: [],
+  WOOD_VERTICAL: SHORT_KICKS,
+  WOOD_ARROW: SHORT_KICKS,
+  WOOD_DOUBLE: LONG_KICKS,
+  WATER_1X3: LONG_KICKS,
+  WATER_1X2: SHORT_KICKS,
+  WATER_L: SHORT_KICKS,
+  STONE_SINGLE: [],
+  STONE_1X2: SHORT_KICKS,
+  STONE_SQUARE: SHORT_KICKS,
+  SAND_1X2: SHORT_KICKS,
+  SAND_1X3: LONG_KICKS,
+  SAND_T: SHORT_KICKS,
+  GLASS_SINGLE: [],
+  GLASS_1X2: SHORT_KICKS,
+  GLASS_1X3: LONG_KICKS,
+}
+
+// Custom shapes get the table of built-in shapes of the same extent
+function getKickTable(type: TetrominoType): KickTable {
+  if (Object.prototype.hasOwnProperty.call(TETROMINO_SHAPES, type)) {
+    return KICK_TABLES[type as BuiltinTetrominoType]
+  }
+
+  const blocks = getRotatedPositions(type)
+  if (blocks.length === 1) return []
+  const spanX = Math.max(...blocks.map(([x]) => x)) - Math.min(...blocks.map(([x]) => x)) + 1
+  const spanZ = Math.max(...blocks.map(([, , z]) => z)) - Math.min(...blocks.map(([, , z]) => z)) + 1
+  if (spanX >= 3 && spanZ >= 3) return WIDE_KICKS
+  return Math.max(spanX, spanZ) >= 3 ? LONG_KICKS : SHORT_KICKS
+}
+
+// Positions to try for a rotation, starting with not moving at all
+export function getKickPositions(type: TetrominoType, position: Position): Position[] {
+  const [x, y, z] = position
+  return [
+    position,
+    ...getKickTable(type).map(([dx, dy, dz]): Position => [x + dx, y + dy, z + dz]),
+  ]
+}
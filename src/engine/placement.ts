@@ -0,0 +1,314 @@
+import { type MaterialType, type MaterialSupportRules, MATERIALS } from '../utils/materials'
+import { type TetrominoType, getRotatedPositions } from './shapes'
+import { getTetrominoSupport } from './integrity'
+import { type BoardSize, type Position, type Rotation, type PlacementResult, type BlockVerdict } from './types'
+
+// Pieces may hang at most this many blocks (Manhattan distance) away from the board
+export const MAX_HORIZONTAL_DISTANCE = 4
+
+export interface BoardBounds {
+  minX: number
+  maxX: number
+  minZ: number
+  maxZ: number
+}
+
+// Calculate board bounds for integer grid (center at [1, 0, 1])
+// Per axis: min = 1 - floor(size/2), max = 1 + floor((size-1)/2), e.g. 3 -> [0, 2], 4 -> [-1, 2]
+export function getBoardBounds(boardSize: BoardSize): BoardBounds {
+  return {
+    minX: 1 - Math.floor(boardSize.width / 2),
+    maxX: 1 + Math.floor((boardSize.width - 1) / 2),
+    minZ: 1 - Math.floor(boardSize.depth / 2),
+    maxZ: 1 + Math.floor((boardSize.depth - 1) / 2),
+  }
+}
+
+// Middle of the board's top surface (between blocks for even sizes)
+export function getBoardCenter(boardSize: BoardSize): Position {
+  const { minX, maxX, minZ, maxZ } = getBoardBounds(boardSize)
+  return [(minX + maxX) / 2, 0, (minZ + maxZ) / 2]
+}
+
+// Get block positions for a tetromino at given position and rotation
+export function getTetrominoBlockPositions(
+  type: TetrominoType,
+  position: Position,
+  rotation: Rotation
+): Position[] {
+  const relativePositions = getRotatedPositions(type, rotation)
+  // Positions are already integers, so no rounding needed
+  return relativePositions.map(([rx, ry, rz]) => [
+    position[0] + rx,
+    position[1] + ry,
+    position[2] + rz,
+  ] as Position)
+}
+
+// Check if any block overlaps a placed block or goes below the board surface
+export function hasCollision(
+  blockPositions: Position[],
+  boardState: Map<string, MaterialType>
+): boolean {
+  return blockPositions.some(([x, y, z]) => {
+    const key = `${x},${y},${z}`
+    if (boardState.has(key)) return true
+    if (y < 0) return true
+    return false
+  })
+}
+
+// Distinct (x, z) columns of a board, parsed once per board
+// (safe to cache: transitions never mutate a committed board, they build a new Map)
+const boardColumnsCache = new WeakMap<Map<string, MaterialType>, Array<[number, number]>>()
+
+function getBoardColumns(boardState: Map<string, MaterialType>): Array<[number, number]> {
+  let columns = boardColumnsCache.get(boardState)
+  if (!columns) {
+    const unique = new Map<string, [number, number]>()
+    for (const key of boardState.keys()) {
+      const [x, , z] = key.split(',').map(Number)
+      unique.set(`${x},${z}`, [x, z])
+    }
+    columns = Array.from(unique.values())
+    boardColumnsCache.set(boardState, columns)
+  }
+  return columns
+}
+
+function getMinHorizontalDistanceToBoard(
+  blockPositions: Position[],
+  boardState: Map<string, MaterialType>
+): number {
+  if (boardState.size === 0) {
+    return Infinity
+  }
+
+  const columns = getBoardColumns(boardState)
+  let minDistance = Infinity
+  for (const [x, , z] of blockPositions) {
+    for (const [bx, bz] of columns) {
+      const distance = Math.abs(x - bx) + Math.abs(z - bz)
+      if (distance < minDistance) {
+        minDistance = distance
+        if (minDistance <= MAX_HORIZONTAL_DISTANCE) {
+          return minDistance
+        }
+      }
+    }
+  }
+  return minDistance
+}
+
+export function isWithinHorizontalRange(
+  blockPositions: Position[],
+  boardSize: BoardSize,
+  boardState: Map<string, MaterialType>
+): boolean {
+  const { minX, maxX, minZ, maxZ } = getBoardBounds(boardSize)
+  const withinBoardBounds = blockPositions.every(([x, , z]) => {
+    return x >= minX && x <= maxX && z >= minZ && z <= maxZ
+  })
+
+  if (withinBoardBounds) {
+    return true
+  }
+
+  return getMinHorizontalDistanceToBoard(blockPositions, boardState) <= MAX_HORIZONTAL_DISTANCE
+}
+
+export function hasFaceAdjacencyToBoard(
+  blockPositions: Position[],
+  boardState: Map<string, MaterialType>
+): boolean {
+  for (const [x, y, z] of blockPositions) {
+    const neighborKeys = [
+      `${x + 1},${y},${z}`,
+      `${x - 1},${y},${z}`,
+      `${x},${y + 1},${z}`,
+      `${x},${y - 1},${z}`,
+      `${x},${y},${z + 1}`,
+      `${x},${y},${z - 1}`,
+    ]
+
+    if (neighborKeys.some((key) => boardState.has(key))) {
+      return true
+    }
+  }
+  return false
+}
+
+// Get the material of the block directly below a position
+function getBlockBelow(
+  x: number,
+  y: number,
+  z: number,
+  boardState: Map<string, MaterialType>
+): MaterialType | null {
+  return boardState.get(`${x},${y - 1},${z}`) || null
+}
+
+function isTetrominoBlock(x: number, y: number, z: number, tetrominoBlockPositions?: Position[]): boolean {
+  return tetrominoBlockPositions?.some(([tx, ty, tz]) => tx === x && ty === y && tz === z) ?? false
+}
+
+// Material directly below a block of a tetromino, where the tetromino's own blocks count
+// (upright pieces stack on themselves)
+function getSupportBelow(
+  x: number,
+  y: number,
+  z: number,
+  material: MaterialType,
+  boardState: Map<string, MaterialType>,
+  tetrominoBlockPositions?: Position[]
+): MaterialType | null {
+  if (isTetrominoBlock(x, y - 1, z, tetrominoBlockPositions)) return material
+  return getBlockBelow(x, y, z, boardState)
+}
+
+type BlockPlacementFailure = { reason: string; verdict: Exclude<BlockVerdict, 'valid'> }
+
+// Determine why a block placement would fail (null means valid)
+function getBlockPlacementFailure(
+  blockPos: Position,
+  material: MaterialType,
+  boardState: Map<string, MaterialType>,
+  tetrominoBlockPositions?: Position[]
+): BlockPlacementFailure | null {
+  const [x, y, z] = blockPos
+
+  // Check if position is occupied
+  if (boardState.has(`${x},${y},${z}`)) return { reason: 'Target cell already occupied', verdict: 'blocked' }
+  // Check collision with board surface
+  if (y < 0) return { reason: 'Cannot place below board level', verdict: 'blocked' }
+
+  const blockBelow = getSupportBelow(x, y, z, material, boardState, tetrominoBlockPositions)
+
+  const { label, support } = MATERIALS[material]
+
+  // Falling blocks settle once the tetromino has landed
+  if (support.falls) {
+    return null
+  }
+
+  // Resting on an allowed material
+  if (blockBelow !== null && (support.allowedBelow === 'any' || support.allowedBelow.includes(blockBelow))) {
+    return null
+  }
+  // Ground-level expansion (contact with the board is verified separately)
+  if (y === 0 && support.groundLevel) {
+    return null
+  }
+
+  if (support.maxSpan > 0) {
+    if (blockBelow !== null) {
+      return { reason: `${label} cannot sit on ${MATERIALS[blockBelow].label.toLowerCase()}`, verdict: 'wrongMaterialBelow' }
+    }
+    // Hanging: a load path reaches it sideways through the same material (see engine/integrity)
+    const pieceBlocks = tetrominoBlockPositions ?? [blockPos]
+    const supported = getTetrominoSupport(pieceBlocks, material, boardState)
+    if (supported[pieceBlocks.findIndex((block) => block.every((value, axis) => value === blockPos[axis]))]) {
+      return null
+    }
+    return {
+      reason: `${label} can only reach ${support.maxSpan} ${support.maxSpan === 1 ? 'block' : 'blocks'} out from a support`,
+      verdict: 'unsupported',
+    }
+  }
+
+  return {
+    reason: `${label} must sit on ${getSupportDescription(support)}`,
+    verdict: blockBelow ? 'wrongMaterialBelow' : 'unsupported',
+  }
+}
+
+// "grass or ground level", "brick, grass or ground level", ...
+function getSupportDescription(support: MaterialSupportRules): string {
+  const options = support.allowedBelow === 'any'
+    ? ['any block']
+    : support.allowedBelow.map((material) => MATERIALS[material].label.toLowerCase())
+  if (support.groundLevel) options.push('ground level')
+  return options.length > 1 ? `${options.slice(0, -1).join(', ')} or ${options[options.length - 1]}` : options[0]
+}
+
+export function getBlockPlacementFailureReason(
+  blockPos: Position,
+  material: MaterialType,
+  boardState: Map<string, MaterialType>,
+  tetrominoBlockPositions?: Position[]
+): string | null {
+  return getBlockPlacementFailure(blockPos, material, boardState, tetrominoBlockPositions)?.reason ?? null
+}
+
+// Check a whole tetromino against the material rules, range and adjacency constraints
+export function evaluatePlacement(
+  type: TetrominoType,
+  position: Position,
+  rotation: Rotation,
+  material: MaterialType,
+  boardSize: BoardSize,
+  boardState: Map<string, MaterialType>
+): PlacementResult {
+  const blockPositions = getTetrominoBlockPositions(type, position, rotation)
+
+  // Report the first reason, along with a verdict for every block
+  let firstReason: string | null = null
+  const failedBlocks: Position[] = []
+  const verdicts = blockPositions.map((blockPos): BlockVerdict => {
+    const failure = getBlockPlacementFailure(blockPos, material, boardState, blockPositions)
+    if (!failure) return 'valid'
+    firstReason ??= failure.reason
+    failedBlocks.push(blockPos)
+    return failure.verdict
+  })
+  if (firstReason) {
+    return { valid: false, reason: firstReason, blocks: failedBlocks, verdicts }
+  }
+
+  // Whole-tetromino rules: every block is at fault
+  if (!isWithinHorizontalRange(blockPositions, boardSize, boardState)) {
+    return {
+      valid: false,
+      reason: `Preview exceeds ${MAX_HORIZONTAL_DISTANCE}-block horizontal range`,
+      blocks: blockPositions,
+      verdicts: blockPositions.map(() => 'outOfRange'),
+    }
+  }
+
+  if (MATERIALS[material].support.needsContact && !hasFaceAdjacencyToBoard(blockPositions, boardState)) {
+    return {
+      valid: false,
+      reason: `${MATERIALS[material].label} tetromino must touch an existing block`,
+      blocks: blockPositions,
+      verdicts: blockPositions.map(() => 'unsupported'),
+    }
+  }
+
+  return { valid: true, verdicts }
+}
+
+// Calculate landing Y position
+export function calculateLandingY(
+  type: TetrominoType,
+  position: Position,
+  rotation: Rotation,
+  boardSize: BoardSize,
+  boardState: Map<string, MaterialType>
+): number {
+  const blockPositions = getTetrominoBlockPositions(type, position, rotation)
+  // Upright pieces can reach below their first block
+  const lowestOffset = Math.min(...blockPositions.map(([, y]) => y - position[1]))
+  let testY = position[1]
+
+  // Move down until collision
+  while (testY + lowestOffset > 0) {
+    const testPositions = blockPositions.map(([x, y, z]) => [x, y - position[1] + testY - 1, z] as Position)
+    if (!isWithinHorizontalRange(testPositions, boardSize, boardState)) {
+      break
+    }
+    if (hasCollision(testPositions, boardState)) break
+    testY--
+  }
+
+  return Math.max(-lowestOffset, testY)
+}
@@ -0,0 +1,48 @@
+import { type Random } from '../utils/random'
+import { type TetrominoType, type ShapeDefinition, getMaterialFromType } from './shapes'
+import { type QueueItem } from './types'
+import { type QueueGeneratorId, drawTetromino } from './queueGenerators'
+
+export const QUEUE_LENGTH = 5
+
+// Discarding a queued tetromino costs DISCARD_COST charge; every placed tetromino
+// earns DISCARD_CHARGE_PER_DROP back, up to MAX_DISCARD_CHARGE (games start with one discard)
+export const DISCARD_COST = 3
+export const DISCARD_CHARGE_PER_DROP = 1
+export const MAX_DISCARD_CHARGE = 6
+
+// Material is derived from tetromino type name
+export function createQueueItem(type: TetrominoType): QueueItem {
+  return { type, material: getMaterialFromType(type) }
+}
+
+// Starting queue: a few water pieces first, the rest from the queue generator
+export function createInitialQueue(
+  generatorId: QueueGeneratorId,
+  random: Random,
+  customShapes: ShapeDefinition[]
+): { queue: QueueItem[]; pending: TetrominoType[] } {
+  const presetTypes: TetrominoType[] = ['WATER_1X3', 'WATER_1X2', 'WATER_L']
+  const randomCount = Math.max(0, QUEUE_LENGTH - presetTypes.length)
+
+  const types = [...presetTypes]
+  let pending: TetrominoType[] = []
+  for (let i = 0; i < randomCount; i++) {
+    const draw = drawTetromino(generatorId, pending, random, customShapes)
+    types.push(draw.type)
+    pending = draw.pending
+  }
+
+  return { queue: types.map(createQueueItem), pending }
+}
+// Remove the used tetromino from the queue and append a new one
+export function consumeQueueItem(
+  queue: QueueItem[],
+  index: number,
+  refill: TetrominoType
+): QueueItem[] {
+  const newQueue = [...queue]
+  newQueue.splice(index, 1)
+  newQueue.push(createQueueItem(refill))
+  return newQueue
+}
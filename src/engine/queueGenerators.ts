@@ -0,0 +1,91 @@
+import { MATERIALS, MATERIAL_TYPES } from '../utils/materials'
+import { type Random, pickByChance } from '../utils/random'
+import { type TetrominoType, type ShapeDefinition, getTetrominoTypes, getMaterialFromType } from './shapes'
+
+// Decides which tetrominoes refill the queue
+// Generators hand out pieces in batches: the engine keeps the undrawn rest of a batch
+// in its state (queuePending) and asks for a new batch once it runs out, so generators
+// themselves stay stateless and every draw is reproducible from the seed
+// (and the game's custom shapes: types lists them after the built-in ones)
+export interface QueueGenerator {
+  label: string
+  createBatch: (random: Random, types: TetrominoType[]) => TetrominoType[]
+}
+
+export type QueueGeneratorId = 'uniform' | 'bag' | 'weighted' | 'scripted'
+
+// Repeating sequence used by the scripted generator (tutorials, puzzles)
+export const SCRIPTED_SEQUENCE: TetrominoType[] = [
+  'GRASS_SQUARE',
+  'BRICK_SINGLE',
+  'WOOD_VERTICAL',
+  'WATER_1X2',
+  'GRASS_L',
+  'BRICK_ARROW',
+  'WOOD_ARROW',
+  'GRASS_T',
+]
+
+function shuffle<T>(items: readonly T[], random: Random): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = random.int(i + 1)
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+export function createScriptedGenerator(sequence: TetrominoType[]): QueueGenerator {
+  return {
+    label: 'Scripted',
+    createBatch: () => [...sequence],
+  }
+}
+
+export const QUEUE_GENERATORS: Record<QueueGeneratorId, QueueGenerator> = {
+  // Every shape equally likely (materials with more shapes come up more often)
+  uniform: {
+    label: 'Uniform',
+    createBatch: (random, types) => [random.pick(types)],
+  },
+  // Every shape once per shuffled bag, so no shape is ever missing for long
+  bag: {
+    label: 'Shuffled bag',
+    createBatch: (random, types) => shuffle(types, random),
+  },
+  // Material first (by its queue weight, independent of shape counts), then a shape of that material
+  weighted: {
+    label: 'Weighted by material',
+    createBatch: (random, types) => {
+      const weights = MATERIAL_TYPES.map((material) => MATERIALS[material].queueWeight)
+      const material = pickByChance(MATERIAL_TYPES, weights, () => random.next()) ?? 'grass'
+      return [random.pick(types.filter((type) => getMaterialFromType(type) === material))]
+    },
+  },
+  scripted: createScriptedGenerator(SCRIPTED_SEQUENCE),
+}
+
+export const QUEUE_GENERATOR_IDS = Object.keys(QUEUE_GENERATORS) as QueueGeneratorId[]
+
+export const DEFAULT_QUEUE_GENERATOR: QueueGeneratorId = 'bag'
+
+export function isQueueGeneratorId(value: unknown): value is QueueGeneratorId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(QUEUE_GENERATORS, value)
+}
+
+// Draw the next tetromino, starting a new batch when the pending one is used up
+export function drawTetromino(
+  generatorId: QueueGeneratorId,
+  pending: TetrominoType[],
+  random: Random,
+  customShapes: ShapeDefinition[]
+): { type: TetrominoType; pending: TetrominoType[] } {
+  const batch = pending.length > 0
+    ? pending
+    : QUEUE_GENERATORS[generatorId].createBatch(random, getTetrominoTypes(customShapes))
+  if (batch.length === 0) {
+    throw new Error(`Queue generator "${generatorId}" produced an empty batch`)
+  }
+  const [type, ...rest] = batch
+  return { type, pending: rest }
+}
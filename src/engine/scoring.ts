@@ -0,0 +1,157 @@
+import { type MaterialType, MATERIALS, MATERIAL_TYPES } from '../utils/materials'
+import { type FaceDirection } from '../utils/faceCulling'
+import { Grid } from '../utils/Grid'
+import { type DecorationRule, DECORATION_RULES } from '../rules'
+import { getWoodRoofDecorations } from '../rules/wood'
+import { generateTreePlacements, getTreeRandom } from '../utils/treeGeneration'
+import { type Position } from './types'
+
+// Scores reward structure quality, so they are derived from the board (and seed) alone:
+// undo, saves and shared worlds never need to store them
+
+export type ScoreCategory = 'houses' | 'water' | 'roofs' | 'trees'
+export type ScoreBreakdown = Record<ScoreCategory, number>
+
+export const SCORE_CATEGORIES: Record<ScoreCategory, { label: string; description: string }> = {
+  houses: { label: 'Houses', description: 'Brick and wood buildings that earned doors and windows' },
+  water: { label: 'Water', description: 'Water blocks joined into channels' },
+  roofs: { label: 'Roofs', description: 'Wood roof tiles, worth double over brick' },
+  trees: { label: 'Trees', description: 'Trees growing on open grass' },
+}
+
+export const SCORE_CATEGORY_IDS = Object.keys(SCORE_CATEGORIES) as ScoreCategory[]
+
+export const SCORE_POINTS = {
+  house: 10, // Connected brick or wood building with at least one door
+  door: 5,
+  window: 2,
+  waterLink: 2, // Each water block beyond the first in a channel
+  roofTile: 3,
+  tree: 1,
+}
+
+// Points a single drop earned (or cost, e.g. covering grass with trees)
+export interface ScoreEvent {
+  points: number
+  changes: Partial<ScoreBreakdown> // Only the categories that changed
+  position: Position // Where the tetromino landed
+}
+
+const HORIZONTAL_FACES: FaceDirection[] = ['left', 'right', 'front', 'back']
+
+const DOOR_RULES = DECORATION_RULES.filter(
+  (rule) => rule.category === 'primary' && rule.decorationNames.some((name) => name.includes('_Door_'))
+)
+const WINDOW_RULES = DECORATION_RULES.filter(
+  (rule) => rule.category === 'primary' && rule.decorationNames.some((name) => name.includes('_Window_'))
+)
+
+// Face-connected groups of blocks of one material
+function getComponents(grid: Grid, material: MaterialType, horizontalOnly = false): Position[][] {
+  const visited = new Set<string>()
+  const components: Position[][] = []
+
+  grid.forEach((blockMaterial, key) => {
+    if (blockMaterial !== material || visited.has(key)) return
+
+    const component: Position[] = []
+    const stack = [Grid.fromKey(key)]
+    visited.add(key)
+    while (stack.length > 0) {
+      const [x, y, z] = stack.pop()!
+      component.push([x, y, z])
+      const neighbors: Position[] = [[x + 1, y, z], [x - 1, y, z], [x, y, z + 1], [x, y, z - 1]]
+      if (!horizontalOnly) neighbors.push([x, y + 1, z], [x, y - 1, z])
+      for (const neighbor of neighbors) {
+        const neighborKey = Grid.getKey(...neighbor)
+        if (grid.get(...neighbor) === material && !visited.has(neighborKey)) {
+          visited.add(neighborKey)
+          stack.push(neighbor)
+        }
+      }
+    }
+    components.push(component)
+  })
+
+  return components
+}
+
+// Buildings earn their doors and windows under the same rules that decorate them
+function scoreHouses(grid: Grid): number {
+  let points = 0
+  const buildings = MATERIAL_TYPES.filter((material) => MATERIALS[material].building).flatMap((material) =>
+    getComponents(grid, material).map((blocks) => ({ material, blocks }))
+  )
+  for (const { material, blocks } of buildings) {
+    let doors = 0
+    let windows = 0
+    for (const position of blocks) {
+      for (const face of HORIZONTAL_FACES) {
+        if (!grid.isFaceVisible(...position, face)) continue
+        const matches = (rule: DecorationRule) =>
+          rule.material === material && rule.faces.includes(face) && rule.check(position, face, grid)
+        if (DOOR_RULES.some(matches)) doors++
+        else if (WINDOW_RULES.some(matches)) windows++
+      }
+    }
+    if (doors > 0) {
+      points += SCORE_POINTS.house + doors * SCORE_POINTS.door + windows * SCORE_POINTS.window
+    }
+  }
+  return points
+}
+
+function scoreWater(grid: Grid): number {
+  return getComponents(grid, 'water', true).reduce(
+    (points, channel) => points + (channel.length - 1) * SCORE_POINTS.waterLink,
+    0
+  )
+}
+
+function scoreRoofs(grid: Grid): number {
+  let points = 0
+  grid.forEach((material, key) => {
+    const [x, y, z] = Grid.fromKey(key)
+    if (material !== 'wood' || grid.has(x, y + 1, z)) return
+    if (getWoodRoofDecorations([x, y, z], grid).length === 0) return
+    points += grid.get(x, y - 1, z) === 'brick' ? SCORE_POINTS.roofTile * 2 : SCORE_POINTS.roofTile
+  })
+  return points
+}
+
+// Trees grow from the seed on open tree-growing blocks (covered grass loses its trees)
+function scoreTrees(grid: Grid, seed: number): number {
+  const openGrass: Array<{ x: number; y: number; z: number }> = []
+  grid.forEach((material, key) => {
+    const [x, y, z] = Grid.fromKey(key)
+    if (MATERIALS[material].growsTrees && !grid.has(x, y + 1, z)) openGrass.push({ x, y, z })
+  })
+  return generateTreePlacements(openGrass, getTreeRandom(seed)).length * SCORE_POINTS.tree
+}
+
+export function getScoreBreakdown(boardState: Map<string, MaterialType>, seed: number): ScoreBreakdown {
+  const grid = new Grid(boardState)
+  return {
+    houses: scoreHouses(grid),
+    water: scoreWater(grid),
+    roofs: scoreRoofs(grid),
+    trees: scoreTrees(grid, seed),
+  }
+}
+
+export function getScoreTotal(breakdown: ScoreBreakdown): number {
+  return SCORE_CATEGORY_IDS.reduce((total, category) => total + breakdown[category], 0)
+}
+
+export function createScoreEvent(
+  before: ScoreBreakdown,
+  after: ScoreBreakdown,
+  position: Position
+): ScoreEvent {
+  const changes: Partial<ScoreBreakdown> = {}
+  for (const category of SCORE_CATEGORY_IDS) {
+    const change = after[category] - before[category]
+    if (change !== 0) changes[category] = change
+  }
+  return { points: getScoreTotal(after) - getScoreTotal(before), changes, position }
+}
@@ -0,0 +1,395 @@
+import { type MaterialType, isMaterialType } from '../utils/materials'
+import { type Angle, type Position, type Rotation } from './types'
+
+// New tetromino types based on material-specific shapes
+// Each material type (grass, brick, wood, water, stone, sand, glass) has different shape variants
+export type BuiltinTetrominoType = 
+  | 'GRASS_SQUARE'    // Grass: 2x2 square (4 blocks)
+  | 'GRASS_L'         // Grass: L-shape (5 blocks: 2x2 + one below left)
+  | 'GRASS_T'         // Grass: T-shaped (4 blocks)
+  | 'GRASS_1X4'       // Grass: 1x4 straight line (4 blocks)
+  | 'GRASS_STAIR'     // Grass: Stair-shaped (10 blocks)
+  | 'BRICK_SINGLE'    // Brick: Single block (1 block)
+  | 'BRICK_VERTICAL'  // Brick: Vertical 1x2 rectangle (2 blocks)
+  | 'BRICK_ARROW'     // Brick: Arrow-shaped (3 blocks)
+  | 'BRICK_ARK'       // Brick: Ark/U-shaped (5 blocks)
+  | 'BRICK_2X3'       // Brick: 2x3 rectangle (6 blocks)
+  | 'WOOD_SINGLE'     // Wood: Single block (1 block)
+  | 'WOOD_VERTICAL'   // Wood: Vertical 1x2 rectangle (2 blocks)
+  | 'WOOD_ARROW'      // Wood: Arrow-shaped (3 blocks)
+  | 'WOOD_DOUBLE'     // Wood: Double with gap (3 blocks)
+  | 'WATER_1X3'       // Water: 1x3 straight line (3 blocks)
+  | 'WATER_1X2'       // Water: 1x2 straight line (2 blocks)
+  | 'WATER_L'         // Water: L-shape (3 blocks)
+  | 'STONE_SINGLE'    // Stone: Single block (1 block)
+  | 'STONE_1X2'       // Stone: 1x2 straight line (2 blocks)
+  | 'STONE_SQUARE'    // Stone: 2x2 square (4 blocks)
+  | 'SAND_1X2'        // Sand: 1x2 straight line (2 blocks)
+  | 'SAND_1X3'        // Sand: 1x3 straight line (3 blocks)
+  | 'SAND_T'          // Sand: T-shaped (4 blocks)
+  | 'GLASS_SINGLE'    // Glass: Single block (1 block)
+  | 'GLASS_1X2'       // Glass: 1x2 straight line (2 blocks)
+  | 'GLASS_1X3'       // Glass: 1x3 straight line (3 blocks)
+
+// Shapes drawn in the shape editor; the type spells out the material and blocks (see createShapeDefinition)
+export type CustomTetrominoType = `CUSTOM_${string}`
+
+export type TetrominoType = BuiltinTetrominoType | CustomTetrominoType
+
+// Define tetromino shapes as arrays of block positions relative to first block
+// First block is always at [0, 0, 0] and serves as the central reference point
+// All shapes are defined horizontal (flat on X-Z plane, y=0); pitch and roll stand them up
+// All positions use integer coordinates only
+// Shapes are defined in a 4x4 grid space (top-left is reference)
+export const TETROMINO_SHAPES: Record<BuiltinTetrominoType, [number, number, number][]> = {
+  // Grass: 2x2 square (top-left 2x2 block)
+  GRASS_SQUARE: [
+    [0, 0, 0],  // Top-left
+    [1, 0, 0],  // Top-right
+    [0, 0, 1],  // Bottom-left
+    [1, 0, 1],  // Bottom-right
+  ],
+  // Grass: L-shape (2x2 square + one cell below left column)
+  GRASS_L: [
+    [0, 0, 0],  // Top-left
+    [1, 0, 0],  // Top-right
+    [0, 0, 1],  // Bottom-left (of 2x2)
+    [1, 0, 1],  // Bottom-right (of 2x2)
+    [0, 0, 2],  // One cell below left column
+  ],
+  // Grass: T-shaped (4 blocks)
+  GRASS_T: [
+    [0, 0, 0],  // Center
+    [0, 0, -1], // Top
+    [-1, 0, 0], // Left
+    [1, 0, 0],  // Right
+  ],
+  // Grass: 1x4 straight line (4 blocks horizontal)
+  GRASS_1X4: [
+    [0, 0, 0],  // First block
+    [1, 0, 0],  // Second block
+    [2, 0, 0],  // Third block
+    [3, 0, 0],  // Fourth block
+  ],
+  // Grass: Stair-shaped (matrix [1,0,0,0][1,1,0,0][1,1,1,0][1,1,1,1])
+  GRASS_STAIR: [
+    [0, 0, 0],  // Row 1: [1,0,0,0]
+    [0, 0, 1],  // Row 2: [1,1,0,0]
+    [1, 0, 1],
+    [0, 0, 2],  // Row 3: [1,1,1,0]
+    [1, 0, 2],
+    [2, 0, 2],
+  ],
+  // Brick: Single block (top-left cell)
+  BRICK_SINGLE: [
+    [0, 0, 0],  // Single block
+  ],
+  // Brick: Vertical 1x2 rectangle (two cells in left column)
+  BRICK_VERTICAL: [
+    [0, 0, 0],  // Top cell
+    [0, 0, 1],  // Bottom cell
+  ],
+  // Brick: Arrow-shaped (3 blocks - corner shape)
+  BRICK_ARROW: [
+    [0, 0, 0],  // Corner
+    [1, 0, 0],  // Right
+    [1, 0, 1],  // Down-right
+  ],
+  // Brick: Ark/U-shaped (matrix [1,1,1][1,0,1])
+  BRICK_ARK: [
+    [0, 0, 0],  // Top-left
+    [1, 0, 0],  // Top-center
+    [2, 0, 0],  // Top-right
+    [0, 0, 1],  // Bottom-left
+    [2, 0, 1],  // Bottom-right (gap in middle)
+  ],
+  // Brick: 2x3 rectangle (6 blocks)
+  BRICK_2X3: [
+    [0, 0, 0],  // Top-left
+    [1, 0, 0],  // Top-right
+    [0, 0, 1],  // Middle-left
+    [1, 0, 1],  // Middle-right
+    [0, 0, 2],  // Bottom-left
+    [1, 0, 2],  // Bottom-right
+  ],
+  // Wood: Single block (top-left cell)
+  WOOD_SINGLE: [
+    [0, 0, 0],  // Single block
+  ],
+  // Wood: Vertical 1x2 rectangle (two cells in left column)
+  WOOD_VERTICAL: [
+    [0, 0, 0],  // Top cell
+    [0, 0, 1],  // Bottom cell
+  ],
+  // Wood: Arrow-shaped (3 blocks - corner shape)
+  WOOD_ARROW: [
+    [0, 0, 0],  // Corner
+    [1, 0, 0],  // Right
+    [1, 0, 1],  // Down-right
+  ],
+  // Wood: Double with gap (matrix [1, 0, 1] - 2 blocks with gap in middle)
+  WOOD_DOUBLE: [
+    [0, 0, 0],  // Left block
+    [2, 0, 0],  // Right block (gap at [1,0,0])
+  ],
+  // Water: 1x3 straight line
+  WATER_1X3: [
+    [0, 0, 0],
+    [1, 0, 0],
+    [2, 0, 0],
+  ],
+  // Water: 1x2 straight line
+  WATER_1X2: [
+    [0, 0, 0],
+    [1, 0, 0],
+  ],
+  // Water: L-shape (3 blocks)
+  WATER_L: [
+    [0, 0, 0],
+    [1, 0, 0],
+    [0, 0, 1],
+  ],
+  // Stone: Single block
+  STONE_SINGLE: [
+    [0, 0, 0],
+  ],
+  // Stone: 1x2 straight line
+  STONE_1X2: [
+    [0, 0, 0],
+    [1, 0, 0],
+  ],
+  // Stone: 2x2 square
+  STONE_SQUARE: [
+    [0, 0, 0],
+    [1, 0, 0],
+    [0, 0, 1],
+    [1, 0, 1],
+  ],
+  // Sand: 1x2 straight line
+  SAND_1X2: [
+    [0, 0, 0],
+    [1, 0, 0],
+  ],
+  // Sand: 1x3 straight line
+  SAND_1X3: [
+    [0, 0, 0],
+    [1, 0, 0],
+    [2, 0, 0],
+  ],
+  // Sand: T-shaped (4 blocks)
+  SAND_T: [
+    [0, 0, 0],  // Center
+    [0, 0, -1], // Top
+    [-1, 0, 0], // Left
+    [1, 0, 0],  // Right
+  ],
+  // Glass: Single block
+  GLASS_SINGLE: [
+    [0, 0, 0],
+  ],
+  // Glass: 1x2 straight line
+  GLASS_1X2: [
+    [0, 0, 0],
+    [1, 0, 0],
+  ],
+  // Glass: 1x3 straight line
+  GLASS_1X3: [
+    [0, 0, 0],
+    [1, 0, 0],
+    [2, 0, 0],
+  ],
+}
+
+// Custom shapes are painted on a SHAPE_GRID_SIZE x SHAPE_GRID_SIZE grid, like the built-in ones
+export const SHAPE_GRID_SIZE = 4
+export const MAX_SHAPE_LABEL_LENGTH = 24
+
+// Games keep the shapes drawn so far in their state (see GameState.customShapes)
+export interface ShapeDefinition {
+  id: CustomTetrominoType
+  label: string
+  material: MaterialType
+  blocks: Position[] // Flat (y = 0), first block at [0, 0, 0] like TETROMINO_SHAPES
+}
+
+// Build a custom shape from painted grid cells ([x, z] pairs), throwing an Error that explains what is wrong
+// Ids spell out material and layout ("CUSTOM_BRICK_0.0_1.0_0.1"), so the same shape gets the same id
+// wherever it is drawn and the engine reads a piece's blocks from its type alone
+export function createShapeDefinition(
+  label: string,
+  material: unknown,
+  cells: Array<[number, number]>
+): ShapeDefinition {
+  const trimmedLabel = label.trim()
+  if (trimmedLabel === '') {
+    throw new Error('Shape needs a name')
+  }
+  if (trimmedLabel.length > MAX_SHAPE_LABEL_LENGTH) {
+    throw new Error(`Shape name is longer than ${MAX_SHAPE_LABEL_LENGTH} characters`)
+  }
+  if (!isMaterialType(material)) {
+    throw new Error(`Shape has an unknown material "${String(material)}"`)
+  }
+  if (cells.length === 0) {
+    throw new Error('Shape needs at least one block')
+  }
+  if (!cells.every((cell) => cell.every(Number.isInteger))) {
+    throw new Error('Shape blocks must be on whole grid cells')
+  }
+
+  const xs = cells.map(([x]) => x)
+  const zs = cells.map(([, z]) => z)
+  if (
+    Math.max(...xs) - Math.min(...xs) >= SHAPE_GRID_SIZE ||
+    Math.max(...zs) - Math.min(...zs) >= SHAPE_GRID_SIZE
+  ) {
+    throw new Error(`Shape doesn't fit in a ${SHAPE_GRID_SIZE}x${SHAPE_GRID_SIZE} grid`)
+  }
+
+  // First block in reading order (top row first) becomes the reference block
+  const unique = Array.from(new Set(cells.map((cell) => cell.join(','))), (key) => key.split(',').map(Number))
+  unique.sort(([ax, az], [bx, bz]) => az - bz || ax - bx)
+  const [originX, originZ] = unique[0]
+  const blocks = unique.map(([x, z]): Position => [x - originX, 0, z - originZ])
+
+  const layout = blocks.map(([x, , z]) => `${x}.${z}`).join('_')
+  return {
+    id: `CUSTOM_${material.toUpperCase()}_${layout}`,
+    label: trimmedLabel,
+    material,
+    blocks,
+  }
+}
+
+// Add a shape to a list of custom shapes; a shape that is already there keeps its place (and name)
+export function addShapeDefinition(shapes: ShapeDefinition[], definition: ShapeDefinition): ShapeDefinition[] {
+  return shapes.some((shape) => shape.id === definition.id) ? shapes : [...shapes, definition]
+}
+
+function isCustomTetrominoType(type: TetrominoType): type is CustomTetrominoType {
+  return type.startsWith('CUSTOM_')
+}
+
+// Custom types read back into their shape (null when the type isn't one createShapeDefinition makes)
+const customShapeCache = new Map<CustomTetrominoType, Pick<ShapeDefinition, 'material' | 'blocks'> | null>()
+
+function parseCustomType(type: CustomTetrominoType): Pick<ShapeDefinition, 'material' | 'blocks'> | null {
+  const cached = customShapeCache.get(type)
+  if (cached !== undefined) return cached
+
+  const [, material = '', ...layout] = type.split('_')
+  const cells = layout.map((cell) => cell.split('.').map(Number) as [number, number])
+  let shape: Pick<ShapeDefinition, 'material' | 'blocks'> | null = null
+  try {
+    const definition = createShapeDefinition('Custom', material.toLowerCase(), cells)
+    // Anything but the normalized spelling would give one shape several types
+    if (definition.id === type) shape = { material: definition.material, blocks: definition.blocks }
+  } catch {
+    // Not a shape the editor could draw (unknown material, cells out of the grid, ...)
+  }
+
+  customShapeCache.set(type, shape)
+  return shape
+}
+
+function getShapeBlocks(type: TetrominoType): [number, number, number][] {
+  const blocks = isCustomTetrominoType(type) ? parseCustomType(type)?.blocks : TETROMINO_SHAPES[type]
+  if (!blocks) {
+    throw new Error(`Unknown tetromino "${type}"`)
+  }
+  return blocks
+}
+
+// Display name: the custom shape's name, or the built-in type spelled out ("Grass stair")
+export function getShapeLabel(type: TetrominoType, customShapes: ShapeDefinition[]): string {
+  if (isCustomTetrominoType(type)) return customShapes.find((shape) => shape.id === type)?.label ?? type
+  const words = type.toLowerCase().split('_')
+  return [words[0].charAt(0).toUpperCase() + words[0].slice(1), ...words.slice(1)].join(' ')
+}
+
+
+// Rotate a 2D point around origin by angle (in degrees)
+// Returns integer coordinates
+function rotatePoint(x: number, z: number, angle: number): [number, number] {
+  const radians = (angle * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return [
+    Math.round(x * cos - z * sin),
+    Math.round(x * sin + z * cos),
+  ]
+}
+
+export const NO_ROTATION: Rotation = { yaw: 0, pitch: 0, roll: 0 }
+
+const ANGLES: Angle[] = [0, 90, 180, 270]
+
+// Rotate an offset around the first block: pitch (Y-Z plane), then roll (X-Y plane), then yaw (X-Z plane)
+function rotatePosition([x, y, z]: [number, number, number], rotation: Rotation): [number, number, number] {
+  const [pitchedY, pitchedZ] = rotatePoint(y, z, rotation.pitch)
+  const [rolledX, rolledY] = rotatePoint(x, pitchedY, rotation.roll)
+  const [turnedX, turnedZ] = rotatePoint(rolledX, pitchedZ, rotation.yaw)
+  return [turnedX, rolledY, turnedZ]
+}
+
+// Get rotated block positions for a tetromino
+export function getRotatedPositions(
+  type: TetrominoType,
+  rotation: Rotation = NO_ROTATION
+): [number, number, number][] {
+  const basePositions = getShapeBlocks(type)
+  if (rotation.yaw === 0 && rotation.pitch === 0 && rotation.roll === 0) return basePositions
+
+  return basePositions.map((position) => rotatePosition(position, rotation))
+}
+
+const distinctRotationsCache = new Map<TetrominoType, Rotation[]>()
+
+// One rotation per distinct block layout a tetromino can take (at most 24)
+export function getDistinctRotations(type: TetrominoType): Rotation[] {
+  const cached = distinctRotationsCache.get(type)
+  if (cached) return cached
+
+  const layouts = new Set<string>()
+  const rotations: Rotation[] = []
+  for (const pitch of ANGLES) {
+    for (const roll of ANGLES) {
+      for (const yaw of ANGLES) {
+        const rotation: Rotation = { yaw, pitch, roll }
+        const layout = getRotatedPositions(type, rotation)
+          .map((position: Position) => position.join(','))
+          .sort()
+          .join(';')
+        if (!layouts.has(layout)) {
+          layouts.add(layout)
+          rotations.push(rotation)
+        }
+      }
+    }
+  }
+
+  distinctRotationsCache.set(type, rotations)
+  return rotations
+}
+
+// Get material type from tetromino type name (built-in types start with their material, "BRICK_ARK")
+export function getMaterialFromType(type: TetrominoType): MaterialType {
+  if (isCustomTetrominoType(type)) return parseCustomType(type)?.material ?? 'grass'
+  const prefix = type.slice(0, type.indexOf('_')).toLowerCase()
+  // Fallback (should never happen)
+  return isMaterialType(prefix) ? prefix : 'grass'
+}
+
+// Built-in tetromino types in declaration order
+export const BUILTIN_TETROMINO_TYPES = Object.keys(TETROMINO_SHAPES) as BuiltinTetrominoType[]
+
+// Every tetromino the queue can hand out: the built-in ones, then a game's custom shapes in the order drawn
+export function getTetrominoTypes(customShapes: ShapeDefinition[]): TetrominoType[] {
+  return [...BUILTIN_TETROMINO_TYPES, ...customShapes.map((shape) => shape.id)]
+}
+
+export function isTetrominoType(value: unknown): value is TetrominoType {
+  if (typeof value !== 'string') return false
+  return Object.prototype.hasOwnProperty.call(TETROMINO_SHAPES, value) ||
+    (value.startsWith('CUSTOM_') && parseCustomType(value as CustomTetrominoType) !== null)
+}
@@ -0,0 +1,106 @@
+import { type MaterialType } from '../utils/materials'
+import { type TetrominoType, getRotatedPositions, getDistinctRotations, getMaterialFromType } from './shapes'
+import { type GameState, type Position, type QueueItem, type Rotation } from './types'
+import {
+  MAX_HORIZONTAL_DISTANCE,
+  getTetrominoBlockPositions,
+  hasCollision,
+  isWithinHorizontalRange,
+  evaluatePlacement,
+  calculateLandingY,
+} from './placement'
+import { DISCARD_COST } from './queue'
+import { getSpawnPosition } from './GameEngine'
+
+// A landing the rules accept: dropping `type` from `position` with `rotation`
+export interface ValidMove {
+  type: TetrominoType
+  position: Position // Landing position
+  rotation: Rotation
+}
+
+type SolverBoard = Pick<GameState, 'boardSize' | 'boardState' | 'highestY'>
+
+// Pieces the player can still get into play: the queue, the hold slot and the active one
+export function getPlayableTypes(
+  queue: QueueItem[],
+  heldPiece: QueueItem | null,
+  activeType: TetrominoType | null
+): TetrominoType[] {
+  const types = queue.map((item) => item.type)
+  if (heldPiece) types.push(heldPiece.type)
+  if (activeType) types.push(activeType)
+  return Array.from(new Set(types))
+}
+
+// Horizontal extent of all placed blocks
+function getBoardExtent(boardState: Map<string, MaterialType>) {
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity
+  for (const key of boardState.keys()) {
+    const [x, , z] = key.split(',').map(Number)
+    minX = Math.min(minX, x)
+    maxX = Math.max(maxX, x)
+    minZ = Math.min(minZ, z)
+    maxZ = Math.max(maxZ, z)
+  }
+  return { minX, maxX, minZ, maxZ }
+}
+
+// Every (position, rotation) a tetromino can be steered to at spawn height and dropped from successfully,
+// generated lazily so callers can stop at the first one
+function* generateValidMoves(board: SolverBoard, type: TetrominoType): Generator<ValidMove> {
+  const { boardSize, boardState, highestY } = board
+  if (boardState.size === 0) return
+
+  const material = getMaterialFromType(type)
+  const spawnY = getSpawnPosition(highestY)[1]
+  const extent = getBoardExtent(boardState)
+
+  for (const rotation of getDistinctRotations(type)) {
+    // Origins for which at least one block could be within range of the board
+    const offsets = getRotatedPositions(type, rotation)
+    const offsetXs = offsets.map(([dx]) => dx)
+    const offsetZs = offsets.map(([, , dz]) => dz)
+    const fromX = extent.minX - MAX_HORIZONTAL_DISTANCE - Math.max(...offsetXs)
+    const toX = extent.maxX + MAX_HORIZONTAL_DISTANCE - Math.min(...offsetXs)
+    const fromZ = extent.minZ - MAX_HORIZONTAL_DISTANCE - Math.max(...offsetZs)
+    const toZ = extent.maxZ + MAX_HORIZONTAL_DISTANCE - Math.min(...offsetZs)
+
+    for (let x = fromX; x <= toX; x++) {
+      for (let z = fromZ; z <= toZ; z++) {
+        const position: Position = [x, spawnY, z]
+        // Same bounds and collision checks the engine applies while steering
+        const blockPositions = getTetrominoBlockPositions(type, position, rotation)
+        if (hasCollision(blockPositions, boardState)) continue
+        if (!isWithinHorizontalRange(blockPositions, boardSize, boardState)) continue
+
+        const landing: Position = [x, calculateLandingY(type, position, rotation, boardSize, boardState), z]
+        if (evaluatePlacement(type, landing, rotation, material, boardSize, boardState).valid) {
+          yield { type, position: landing, rotation }
+        }
+      }
+    }
+  }
+}
+
+export function findValidMovesForType(board: SolverBoard, type: TetrominoType): ValidMove[] {
+  return Array.from(generateValidMoves(board, type))
+}
+
+export function findValidMoves(board: SolverBoard, types: TetrominoType[]): ValidMove[] {
+  return types.flatMap((type) => findValidMovesForType(board, type))
+}
+
+// Whether any of the types has a valid move, stopping at the first one found
+export function hasValidMove(board: SolverBoard, types: TetrominoType[]): boolean {
+  return types.some((type) => !generateValidMoves(board, type).next().done)
+}
+
+// Dead state: nothing playable fits anywhere and there is no way left to draw a different piece
+// (a discard, or setting a piece aside in the empty hold slot)
+export function isGameOver(state: GameState, canMove: boolean): boolean {
+  if (canMove || state.droppingTetromino !== null) return false
+  const canDiscard = state.discardCharge >= DISCARD_COST && state.queue.length > 0
+  const canHoldForNewPiece = state.heldPiece === null && !state.holdUsed
+  return !canDiscard && !canHoldForNewPiece
+}
@@ -0,0 +1,119 @@
+import { type MaterialType } from '../utils/materials'
+import { type TetrominoType, type ShapeDefinition } from './shapes'
+import { type QueueGeneratorId } from './queueGenerators'
+import { type ScoreBreakdown, type ScoreEvent } from './scoring'
+import { type CollapseEvent } from './integrity'
+
+export type Position = [number, number, number]
+export type Angle = 0 | 90 | 180 | 270
+export type RotationAxis = 'yaw' | 'pitch' | 'roll'
+// Quarter turns of a tetromino: pitch (around X) and roll (around Z) stand it up,
+// yaw (around Y) turns it on the spot. Applied in that order, see getRotatedPositions
+export type Rotation = Record<RotationAxis, Angle>
+// Quarter turn forward (clockwise for yaw) or back
+export type RotationDirection = 1 | -1
+
+// Horizontal extent of the board in blocks (x by z), centered on [1, 0, 1]
+export interface BoardSize {
+  width: number
+  depth: number
+}
+
+export interface QueueItem {
+  type: TetrominoType
+  material: MaterialType
+}
+
+export interface ActiveTetromino {
+  type: TetrominoType
+  position: Position
+  rotation: Rotation
+  material: MaterialType
+}
+
+export interface DroppingTetromino {
+  type: TetrominoType
+  startPosition: Position
+  endPosition: Position
+  rotation: Rotation
+  material: MaterialType
+  queueIndex: number | null // Queue slot consumed once the drop completes (null when it came from the hold slot)
+}
+
+// Snapshot of a game. Transitions never mutate a state, they return a new one
+// (boardState included: a new Map is created whenever blocks are committed)
+export interface GameState {
+  boardSize: BoardSize
+  // Board state: Map of occupied positions to materials "x,y,z" -> MaterialType
+  boardState: Map<string, MaterialType>
+  highestY: number
+  // Queue of tetrominoes with materials (first one is next to use)
+  queue: QueueItem[]
+  // Queue slot of the active tetromino (null when nothing is active or it came from the hold slot)
+  selectedIndex: number | null
+  activeTetromino: ActiveTetromino | null
+  droppingTetromino: DroppingTetromino | null
+  // Session seed every random stream of the world derives from (see utils/random)
+  seed: number
+  // Position of the queue's random stream, advanced whenever the queue is refilled
+  queueRandomState: number
+  // Generator refilling the queue and the undrawn rest of its current batch
+  queueGenerator: QueueGeneratorId
+  queuePending: TetrominoType[]
+  // Shapes drawn in the shape editor, dealt by the queue generator alongside the built-in ones
+  customShapes: ShapeDefinition[]
+  // Piece set aside with the hold action, and whether hold was used since the last drop
+  heldPiece: QueueItem | null
+  holdUsed: boolean
+  // Charge spent by discards, earned back by placing tetrominoes
+  discardCharge: number
+  // Current score (derived from the board and seed) and what the last completed drop earned
+  score: ScoreBreakdown
+  lastScoreEvent: ScoreEvent | null
+  // Blocks that gave way after the last completed drop
+  lastCollapse: CollapseEvent | null
+}
+
+// The parts of a game state that undo/redo and saves restore
+export type GameSnapshot = Pick<
+  GameState,
+  | 'boardSize'
+  | 'boardState'
+  | 'queue'
+  | 'highestY'
+  | 'seed'
+  | 'queueRandomState'
+  | 'queueGenerator'
+  | 'queuePending'
+  | 'customShapes'
+  | 'heldPiece'
+  | 'discardCharge'
+>
+
+export type GameAction =
+  | { type: 'select'; index: number }
+  | { type: 'move'; deltaX: number; deltaZ: number }
+  | { type: 'rotate'; axis: RotationAxis; direction: RotationDirection }
+  | { type: 'drop' }
+  | { type: 'completeDrop' }
+  | { type: 'restore'; snapshot: GameSnapshot }
+  | { type: 'setQueueGenerator'; generator: QueueGeneratorId }
+  | { type: 'hold' }
+  | { type: 'discard'; index: number }
+  | { type: 'reorderQueue'; from: number; to: number }
+  | { type: 'demolish'; position: Position }
+  | { type: 'addShape'; shape: ShapeDefinition }
+
+// How a single block of a placement fares against the rules
+export type BlockVerdict =
+  | 'valid'
+  | 'blocked' // Cell occupied or below the board
+  | 'unsupported' // Nothing (suitable) to rest on or connect to
+  | 'wrongMaterialBelow' // Resting on a material it can't sit on
+  | 'outOfRange' // Too far from the board
+
+// verdicts line up with the tetromino's block positions
+// blocks are the world positions of the blocks that broke the rules
+export type PlacementResult =
+  | { valid: true; verdicts: BlockVerdict[] }
+  | { valid: false; reason: string; blocks: Position[]; verdicts: BlockVerdict[] }
@@ -0,0 +1,76 @@
+import { type MaterialType, MATERIALS } from '../utils/materials'
+import { type BoardSize, type Position } from './types'
+import { getBoardBounds } from './placement'
+
+// Cellular water: placed water blocks are sources at full level, water spreads one level lower
+// into each open side cell it can rest in and pours straight down off ledges keeping its level
+export const MAX_WATER_LEVEL = 4
+
+export interface WaterCell {
+  level: number // 1 (thin edge) to MAX_WATER_LEVEL (source)
+  falling: boolean // Poured in from above, part of a waterfall
+}
+
+// Every cell holding water by "x,y,z" key, the placed sources included
+export type WaterState = Map<string, WaterCell>
+
+function isLiquid(material: MaterialType): boolean {
+  return MATERIALS[material].opacity === 'liquid'
+}
+
+const SIDE_STEPS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+
+// Settle the water of a board; the result only depends on the board, so it is recomputed rather than stored
+export function simulateWater(boardSize: BoardSize, boardState: Map<string, MaterialType>): WaterState {
+  const water: WaterState = new Map()
+  // Cells waiting to be filled, by level; higher levels settle first, so each cell keeps the highest level reaching it
+  const pending: Array<Array<[Position, WaterCell]>> = Array.from({ length: MAX_WATER_LEVEL + 1 }, () => [])
+
+  for (const [key, material] of boardState) {
+    if (!isLiquid(material)) continue
+    const [x, y, z] = key.split(',').map(Number)
+    pending[MAX_WATER_LEVEL].push([[x, y, z], { level: MAX_WATER_LEVEL, falling: false }])
+  }
+
+  const isOpen = (x: number, y: number, z: number) => y >= 0 && !boardState.has(`${x},${y},${z}`)
+  // Water spreads over the ground within the board and the blocks water may sit on (grass and other
+  // terrain, never rooftops), or off a ledge into open air where it pours down
+  const { minX, maxX, minZ, maxZ } = getBoardBounds(boardSize)
+  const { allowedBelow } = MATERIALS.water.support
+  const canSpreadTo = (x: number, y: number, z: number) => {
+    if (y === 0) return x >= minX && x <= maxX && z >= minZ && z <= maxZ
+    const below = boardState.get(`${x},${y - 1},${z}`)
+    return below === undefined || allowedBelow === 'any' || allowedBelow.includes(below)
+  }
+
+  for (let level = MAX_WATER_LEVEL; level > 0; level--) {
+    // Falling water stays at this level, so the list grows while it is walked
+    const cells = pending[level]
+    for (let i = 0; i < cells.length; i++) {
+      const [[x, y, z], cell] = cells[i]
+      const key = `${x},${y},${z}`
+      if (water.has(key)) continue
+      water.set(key, cell)
+
+      // Pour down first; water resting on water merges with it instead of spreading
+      const belowKey = `${x},${y - 1},${z}`
+      const below = boardState.get(belowKey)
+      if (below && isLiquid(below)) continue
+      if (isOpen(x, y - 1, z)) {
+        if (!water.has(belowKey)) {
+          cells.push([[x, y - 1, z], { level, falling: true }])
+        }
+        continue
+      }
+
+      if (level === 1) continue
+      for (const [dx, dz] of SIDE_STEPS) {
+        if (isOpen(x + dx, y, z + dz) && canSpreadTo(x + dx, y, z + dz) && !water.has(`${x + dx},${y},${z + dz}`)) {
+          pending[level - 1].push([[x + dx, y, z + dz], { level: level - 1, falling: false }])
+        }
+      }
+    }
+  }
+
+  return water
+}
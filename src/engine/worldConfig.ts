@@ -0,0 +1,161 @@
+import { type MaterialType } from '../utils/materials'
+import { type BoardSize, type Position } from './types'
+import { getBoardBounds, getBlockPlacementFailureReason } from './placement'
+
+// Starting ground (y = 0) of a world, within the board bounds
+export type WorldTerrain =
+  | { kind: 'flat' } // Grass on every cell
+  | { kind: 'island' } // Grass on the ellipse inscribed in the board
+  // One row per z (from the board's min z), one character per x: '#' grass, '~' water, anything else empty
+  | { kind: 'mask'; rows: string[] }
+
+export interface SceneBlock {
+  position: Position
+  material: MaterialType
+}
+
+// Everything needed to lay out a new world's board
+export interface WorldConfig {
+  size: BoardSize
+  terrain: WorldTerrain
+  // Pre-built blocks on top of the terrain (starter scenes), placed in order
+  scene?: SceneBlock[]
+}
+
+export type WorldPresetId = 'classic' | 'square' | 'rectangle' | 'island' | 'atoll' | 'cottage'
+
+export const WORLD_PRESETS: Record<WorldPresetId, { label: string; config: WorldConfig }> = {
+  classic: {
+    label: 'Classic 3×3',
+    config: { size: { width: 3, depth: 3 }, terrain: { kind: 'flat' } },
+  },
+  square: {
+    label: 'Square 5×5',
+    config: { size: { width: 5, depth: 5 }, terrain: { kind: 'flat' } },
+  },
+  rectangle: {
+    label: 'Strip 7×3',
+    config: { size: { width: 7, depth: 3 }, terrain: { kind: 'flat' } },
+  },
+  island: {
+    label: 'Island',
+    config: { size: { width: 7, depth: 7 }, terrain: { kind: 'island' } },
+  },
+  atoll: {
+    label: 'Atoll',
+    config: {
+      size: { width: 7, depth: 7 },
+      terrain: {
+        kind: 'mask',
+        rows: [
+          '.#####.',
+          '##~~~##',
+          '#~~~~~#',
+          '#~~#~~#',
+          '#~~~~~#',
+          '##~~~##',
+          '.#####.',
+        ],
+      },
+    },
+  },
+  cottage: {
+    label: 'Cottage by the pond',
+    config: {
+      size: { width: 5, depth: 5 },
+      terrain: {
+        kind: 'mask',
+        rows: [
+          '#####',
+          '#####',
+          '###~~',
+          '###~~',
+          '#####',
+        ],
+      },
+      scene: [
+        { position: [-1, 1, -1], material: 'brick' },
+        { position: [0, 1, -1], material: 'brick' },
+        { position: [-1, 1, 0], material: 'brick' },
+        { position: [0, 1, 0], material: 'brick' },
+        { position: [-1, 2, -1], material: 'wood' },
+        { position: [0, 2, -1], material: 'wood' },
+        { position: [-1, 2, 0], material: 'wood' },
+        { position: [0, 2, 0], material: 'wood' },
+      ],
+    },
+  },
+}
+
+export const WORLD_PRESET_IDS = Object.keys(WORLD_PRESETS) as WorldPresetId[]
+
+export const DEFAULT_WORLD_PRESET: WorldPresetId = 'classic'
+
+export function isWorldPresetId(value: unknown): value is WorldPresetId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WORLD_PRESETS, value)
+}
+
+function getTerrainMaterial(
+  terrain: WorldTerrain,
+  column: number,
+  row: number,
+  size: BoardSize
+): MaterialType | null {
+  switch (terrain.kind) {
+    case 'flat':
+      return 'grass'
+    case 'island': {
+      // Cell centers inside the inscribed ellipse
+      const dx = (column + 0.5 - size.width / 2) / (size.width / 2)
+      const dz = (row + 0.5 - size.depth / 2) / (size.depth / 2)
+      return dx * dx + dz * dz <= 1 ? 'grass' : null
+    }
+    case 'mask': {
+      const cell = terrain.rows[row][column]
+      if (cell === '#') return 'grass'
+      if (cell === '~') return 'water'
+      return null
+    }
+  }
+}
+
+// Lay out the starting board of a world, throwing an Error for configs that can't be built
+export function createWorldBoard(config: WorldConfig): Map<string, MaterialType> {
+  const { size, terrain, scene = [] } = config
+  if (!Number.isInteger(size.width) || !Number.isInteger(size.depth) || size.width < 1 || size.depth < 1) {
+    throw new Error(`Invalid board size ${size.width}×${size.depth}`)
+  }
+  if (terrain.kind === 'mask') {
+    if (terrain.rows.length !== size.depth || terrain.rows.some((row) => row.length !== size.width)) {
+      throw new Error(`Terrain mask must be ${size.depth} rows of ${size.width} cells`)
+    }
+  }
+
+  const boardState = new Map<string, MaterialType>()
+  const { minX, minZ } = getBoardBounds(size)
+
+  // Terrain at Y=0
+  for (let row = 0; row < size.depth; row++) {
+    for (let column = 0; column < size.width; column++) {
+      const material = getTerrainMaterial(terrain, column, row, size)
+      if (material) {
+        boardState.set(`${minX + column},0,${minZ + row}`, material)
+      }
+    }
+  }
+  if (boardState.size === 0) {
+    throw new Error('World terrain has no ground blocks')
+  }
+
+  // Scene blocks follow the same material rules as placed tetrominoes
+  // (checked against a copy: support distances are cached by board, see engine/integrity)
+  for (const { position, material } of scene) {
+    const reason = getBlockPlacementFailureReason(position, material, new Map(boardState))
+    if (reason) {
+      throw new Error(`Invalid scene block at ${position.join(',')}: ${reason}`)
+    }
+    boardState.set(position.join(','), material)
+  }
+
+  return boardState
+}
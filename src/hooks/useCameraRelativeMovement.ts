@@ -1,61 +1,46 @@
 import { useThree } from '@react-three/fiber'
-import { useMemo } from 'react'
+import { useCallback } from 'react'
 import * as THREE from 'three'
 
+const UP = new THREE.Vector3(0, 1, 0)
+
+// Board step (X, Z) for a direction seen from the camera: screenX to the right, screenY away from the camera
+// The camera's view is projected on the X-Z plane and the result rounded to whole blocks
+export function getCameraRelativeStep(camera: THREE.Camera, screenX: number, screenY: number): [number, number] {
+  // Get camera's forward direction (where it's looking), projected onto the X-Z plane
+  const forward = new THREE.Vector3()
+  camera.getWorldDirection(forward)
+  forward.y = 0
+  forward.normalize()
+
+  // Right when viewed from the camera
+  const right = new THREE.Vector3().crossVectors(forward, UP).normalize()
+
+  const step = forward.multiplyScalar(screenY).addScaledVector(right, screenX)
+  return [Math.round(step.x), Math.round(step.z)]
+}
+
 // Get camera-relative movement deltas for horizontal plane (X-Z)
 export function useCameraRelativeMovement() {
   const { camera } = useThree()
 
-  const movementDeltas = useMemo(() => {
-    // Get camera's forward direction (where it's looking)
-    const forward = new THREE.Vector3()
-    camera.getWorldDirection(forward)
-    
-    // Project forward vector onto X-Z plane (set Y to 0)
-    forward.y = 0
-    forward.normalize()
-    
-    // Calculate right vector (perpendicular to forward on X-Z plane)
-    // Right = forward × up, then project to X-Z plane
-    const up = new THREE.Vector3(0, 1, 0)
-    const right = new THREE.Vector3()
-    right.crossVectors(forward, up).normalize()
-    
-    // For X-Z plane movement, we need to flip the cross product
-    // Since we want right to point right when viewed from camera
-    right.crossVectors(up, forward).normalize()
-    
-    return {
-      forward: [forward.x, forward.z] as [number, number],
-      right: [right.x, right.z] as [number, number],
-    }
-  }, [camera])
-
-  // Get movement delta for a direction
-  const getMovementDelta = (direction: 'forward' | 'backward' | 'left' | 'right'): [number, number] => {
-    const { forward, right } = movementDeltas
-    
+  // Get movement delta for a direction (read from the camera when called, so it follows orbiting)
+  const getMovementDelta = useCallback((direction: 'forward' | 'backward' | 'left' | 'right'): [number, number] => {
     switch (direction) {
       case 'forward':
         // Move away from camera (forward direction)
-        return [Math.round(forward[0]), Math.round(forward[1])]
+        return getCameraRelativeStep(camera, 0, 1)
       case 'backward':
         // Move toward camera (opposite of forward)
-        return [Math.round(-forward[0]), Math.round(-forward[1])]
+        return getCameraRelativeStep(camera, 0, -1)
       case 'left':
         // Move to camera's left
-        return [Math.round(-right[0]), Math.round(-right[1])]
+        return getCameraRelativeStep(camera, -1, 0)
       case 'right':
         // Move to camera's right
-        return [Math.round(right[0]), Math.round(right[1])]
+        return getCameraRelativeStep(camera, 1, 0)
     }
-  }
+  }, [camera])
 
   return { getMovementDelta }
 }
-
-
-
-
-
-
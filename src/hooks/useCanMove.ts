@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { type GameState, type TetrominoType, hasValidMove } from '../engine'
+
+/**
+ * Whether any piece in play still has a valid landing, searched off the render path
+ * One piece type is searched per task and the search stops at the first landing found; null while searching
+ * Types are compared by value, so passing the same pieces again doesn't restart the search
+ */
+export function useCanMove(
+  board: Pick<GameState, 'boardSize' | 'boardState' | 'highestY'>,
+  types: TetrominoType[]
+): boolean | null {
+  const { boardSize, boardState, highestY } = board
+  const typesKey = types.join('|')
+  // A finished search, with the inputs it searched
+  const [result, setResult] = useState<{
+    boardSize: typeof boardSize
+    boardState: typeof boardState
+    typesKey: string
+    canMove: boolean
+  } | null>(null)
+
+  useEffect(() => {
+    const pending = typesKey === '' ? [] : typesKey.split('|') as TetrominoType[]
+    let timeout: ReturnType<typeof setTimeout>
+
+    const searchNext = () => {
+      const type = pending.shift()
+      if (type === undefined) {
+        setResult({ boardSize, boardState, typesKey, canMove: false })
+        return
+      }
+      if (hasValidMove({ boardSize, boardState, highestY }, [type])) {
+        setResult({ boardSize, boardState, typesKey, canMove: true })
+        return
+      }
+      timeout = setTimeout(searchNext, 0)
+    }
+    timeout = setTimeout(searchNext, 0)
+    return () => clearTimeout(timeout)
+  }, [boardSize, boardState, highestY, typesKey])
+
+  const isCurrent = result?.boardSize === boardSize && result.boardState === boardState && result.typesKey === typesKey
+  return isCurrent ? result.canMove : null
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react'
+
+// Phones and small tablets get the compact HUD
+const COMPACT_LAYOUT_QUERY = '(max-width: 640px)'
+
+/**
+ * Whether the screen is small enough for the compact HUD
+ * Follows the window as it is resized or rotated
+ */
+export function useCompactLayout(): boolean {
+  const [isCompact, setIsCompact] = useState(() => window.matchMedia(COMPACT_LAYOUT_QUERY).matches)
+
+  useEffect(() => {
+    const query = window.matchMedia(COMPACT_LAYOUT_QUERY)
+    const handleChange = () => setIsCompact(query.matches)
+    handleChange()
+    query.addEventListener('change', handleChange)
+    return () => query.removeEventListener('change', handleChange)
+  }, [])
+
+  return isCompact
+}
@@ -0,0 +1,36 @@
+import { useState, useCallback } from 'react'
+import { type MaterialType } from '../utils/materials'
+import {
+  type ShapeDefinition,
+  createShapeDefinition,
+} from '../engine'
+
+/**
+ * Hook for the shape editor: checks drawn shapes before they join the game's custom shapes
+ * (held in the game state, see useGameState)
+ */
+export function useCustomShapes(shapes: ShapeDefinition[], onAdd: (shape: ShapeDefinition) => void) {
+  const [error, setError] = useState<string | null>(null)
+
+  // Returns true when the shape was added
+  const addShape = useCallback((label: string, material: MaterialType, cells: Array<[number, number]>) => {
+    try {
+      const definition = createShapeDefinition(label, material, cells)
+      const existing = shapes.find((shape) => shape.id === definition.id)
+      if (existing) {
+        throw new Error(`Same shape as "${existing.label}"`)
+      }
+      onAdd(definition)
+      setError(null)
+      return true
+    } catch (shapeError) {
+      setError(shapeError instanceof Error ? shapeError.message : String(shapeError))
+      return false
+    }
+  }, [shapes, onAdd])
+
+  return {
+    error,
+    addShape,
+  }
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+import {
+  type GameState,
+  type HintHeuristicId,
+  type TetrominoType,
+  type ValidMove,
+  HINT_HEURISTICS,
+  rankPlacements,
+} from '../engine'
+
+type HintWorld = Pick<GameState, 'boardSize' | 'boardState' | 'highestY' | 'seed' | 'score'>
+
+/**
+ * Best placement for the active tetromino under a hint heuristic
+ * Ranked off the render path, so the hint shows up a moment after the piece (null until then)
+ * Pass a null heuristic while hints are hidden, so nothing is ranked
+ */
+export function usePlacementHint(
+  world: HintWorld,
+  activeType: TetrominoType | null,
+  heuristic: HintHeuristicId | null
+): ValidMove | null {
+  const { boardSize, boardState, highestY, seed, score } = world
+  // The last hint, with the inputs it was ranked for
+  const [result, setResult] = useState<{
+    boardState: HintWorld['boardState']
+    activeType: TetrominoType
+    heuristic: HintHeuristicId
+    move: ValidMove | null
+  } | null>(null)
+
+  useEffect(() => {
+    if (!heuristic || !activeType) return
+    const timeout = setTimeout(() => {
+      const ranked = rankPlacements(
+        { boardSize, boardState, highestY, seed, score },
+        activeType,
+        HINT_HEURISTICS[heuristic]
+      )
+      setResult({ boardState, activeType, heuristic, move: ranked[0]?.move ?? null })
+    }, 0)
+    return () => clearTimeout(timeout)
+  }, [boardSize, boardState, highestY, seed, score, activeType, heuristic])
+
+  const isCurrent = result?.boardState === boardState &&
+    result.activeType === activeType &&
+    result.heuristic === heuristic
+  return isCurrent ? result.move : null
+}
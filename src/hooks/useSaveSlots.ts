@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  type SaveWorld,
+  type SaveSlotInfo,
+  AUTOSAVE_SLOT,
+  getSlotId,
+  writeSaveSlot,
+  readSaveSlot,
+  deleteSaveSlot,
+  listSaveSlots,
+} from '../utils/saveData'
+
+// Delay after the last world change before autosaving
+const AUTOSAVE_DELAY_MS = 500
+
+type UseSaveSlotsOptions = {
+  world: SaveWorld
+  canLoad: boolean
+  onLoad: (world: SaveWorld) => void
+}
+
+/**
+ * Hook to manage named save slots and the autosave in localStorage
+ * The autosave is rewritten whenever the board, queue, trees or custom shapes change (see readAutosave for resuming)
+ */
+export function useSaveSlots({ world, canLoad, onLoad }: UseSaveSlotsOptions) {
+  const [slots, setSlots] = useState<SaveSlotInfo[]>(() => listSaveSlots())
+  const [error, setError] = useState<string | null>(null)
+  const worldRef = useRef(world)
+
+  useEffect(() => {
+    worldRef.current = world
+  })
+
+  // Autosave shortly after the world changes
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      try {
+        writeSaveSlot(AUTOSAVE_SLOT, worldRef.current, 'Autosave')
+      } catch (saveError) {
+        console.warn('[useSaveSlots] Autosave failed', saveError)
+      }
+      setSlots(listSaveSlots())
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [world.boardState, world.queue, world.trees, world.customShapes])
+
+  const save = useCallback((name: string) => {
+    const trimmedName = name.trim() || 'Untitled'
+    try {
+      writeSaveSlot(getSlotId(trimmedName), worldRef.current, trimmedName)
+      setError(null)
+    } catch (saveError) {
+      // localStorage may be full or unavailable
+      setError(saveError instanceof Error ? saveError.message : String(saveError))
+    }
+    setSlots(listSaveSlots())
+  }, [])
+
+  const load = useCallback((slotId: string) => {
+    if (!canLoad) return
+    try {
+      const loaded = readSaveSlot(slotId)
+      if (!loaded) {
+        setError(`Save "${slotId}" not found`)
+        return
+      }
+      onLoad(loaded)
+      setError(null)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    }
+  }, [canLoad, onLoad])
+
+  const remove = useCallback((slotId: string) => {
+    deleteSaveSlot(slotId)
+    setSlots(listSaveSlots())
+  }, [])
+
+  return {
+    slots,
+    error,
+    save,
+    load,
+    remove,
+  }
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+import { usePinch } from '@use-gesture/react'
+import { type RotationAxis, type RotationDirection } from '../engine'
+
+// Twisting two fingers this far turns the piece a quarter turn
+const TWIST_STEP_DEGREES = 45
+
+/**
+ * Touch control scheme for tablets
+ * Dragging over the board and tapping go through the board's pointer events like the mouse does;
+ * this hook adds the two-finger twist and tracks whether touch is in use and the camera is being orbited
+ * Spread bind() on the element around the canvas
+ */
+export function useTouchControls(rotateTetromino: (axis: RotationAxis, direction: RotationDirection) => void) {
+  const [isTouch, setIsTouch] = useState(false)
+  const [isOrbiting, setIsOrbiting] = useState(false)
+  const [isTwisting, setIsTwisting] = useState(false)
+
+  // Switch schemes with whatever pointer was used last
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => setIsTouch(event.pointerType === 'touch')
+    window.addEventListener('pointerdown', handlePointerDown)
+    return () => window.removeEventListener('pointerdown', handlePointerDown)
+  }, [])
+
+  // The pinch itself zooms through OrbitControls, only the twist is handled here
+  const bind = usePinch(({ event, active, da: [, angle], memo }) => {
+    // Trackpad pinches arrive as wheel events on desktop
+    if (event.type === 'wheel') return memo
+    setIsTwisting(active)
+    const start: number = memo ?? angle
+    const turned = angle - start
+    if (isOrbiting || Math.abs(turned) < TWIST_STEP_DEGREES) return start
+
+    rotateTetromino('yaw', turned > 0 ? 1 : -1)
+    return angle
+  })
+
+  const toggleOrbiting = () => setIsOrbiting((orbiting) => !orbiting)
+
+  return {
+    bind,
+    isTouch,
+    isOrbiting,
+    toggleOrbiting,
+    // Pointer events over the board should leave the piece alone
+    isBoardLocked: isTouch && (isOrbiting || isTwisting),
+  }
+}
@@ -1,12 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { type MaterialType } from '../utils/materials'
-import { type TetrominoType } from '../components/game/Tetromino'
-import { getGrassBlockPositions, generateTreePlacements, type TreePlacement } from '../utils/treeGeneration'
+import { type MaterialType, MATERIALS } from '../utils/materials'
+import { type TetrominoType } from '../engine/shapes'
+import { type Rotation } from '../engine/types'
+import { getGrassBlockPositions, generateTreePlacements, getTreeRandom, type TreePlacement } from '../utils/treeGeneration'
 
 type Position = [number, number, number]
-type Rotation = 0 | 90 | 180 | 270
 
-type TreePlacementWithState = TreePlacement & {
+export type TreePlacementWithState = TreePlacement & {
   id: string
   removing: boolean
 }
@@ -35,33 +35,54 @@ function isTreeUnderBlock(
   return withinX && withinZ && blockAboveTree
 }
 
+// Keys of all grass blocks on a board
+function getGrassBlockKeys(boardState: Map<string, MaterialType>): Set<string> {
+  return new Set(
+    Array.from(boardState.entries())
+      .filter(([, material]) => MATERIALS[material].growsTrees)
+      .map(([key]) => key)
+  )
+}
+
+// First generated id that cannot collide with the given trees' ids ("tree-N")
+function getNextTreeId(trees: TreePlacementWithState[], nextId: number): number {
+  for (const tree of trees) {
+    const idNumber = Number(tree.id.replace('tree-', ''))
+    if (Number.isInteger(idNumber) && idNumber >= nextId) {
+      nextId = idNumber + 1
+    }
+  }
+  return nextId
+}
+
 /**
  * Hook to manage procedural tree placements
- * Generates trees on initial load and when new grass blocks are added
+ * Generates trees on initial load (unless resuming initialTrees) and when new grass blocks are added
  */
 export function useTreePlacements(
-  boardSize: number,
   boardState: Map<string, MaterialType>,
   getTetrominoBlockPositions: (
     type: TetrominoType,
     position: Position,
     rotation: Rotation
-  ) => Position[]
+  ) => Position[],
+  seed: number,
+  initialTrees?: TreePlacementWithState[] | null
 ) {
-  const [treePlacements, setTreePlacements] = useState<TreePlacementWithState[]>([])
-  const processedBlocksRef = useRef<Set<string>>(new Set())
-  const isInitializedRef = useRef(false)
-  const nextTreeIdRef = useRef(0)
+  const [treePlacements, setTreePlacements] = useState<TreePlacementWithState[]>(initialTrees ?? [])
+  const processedBlocksRef = useRef<Set<string>>(initialTrees ? getGrassBlockKeys(boardState) : new Set())
+  const isInitializedRef = useRef(Boolean(initialTrees))
+  const nextTreeIdRef = useRef(initialTrees ? getNextTreeId(initialTrees, 0) : 0)
 
   // Generate initial trees on mount
   useEffect(() => {
     if (isInitializedRef.current) return
     
-    const grassBlocks = getGrassBlockPositions(boardSize, boardState)
+    const grassBlocks = getGrassBlockPositions(boardState)
     
     if (grassBlocks.length > 0) {
       // Generate trees for all initial blocks
-      const placements = generateTreePlacements(grassBlocks)
+      const placements = generateTreePlacements(grassBlocks, getTreeRandom(seed))
       
       // Add unique IDs and removing state
       const placementsWithState: TreePlacementWithState[] = placements.map((placement) => ({
@@ -79,7 +100,7 @@ export function useTreePlacements(
       
       isInitializedRef.current = true
     }
-  }, [boardSize, boardState])
+  }, [boardState, seed])
 
   // Function to add trees for a newly placed tetromino
   const addTreesForTetromino = useCallback(
@@ -90,7 +111,7 @@ export function useTreePlacements(
       material: MaterialType
     ) => {
       // Only process grass tetrominos
-      if (material !== 'grass') return
+      if (!MATERIALS[material].growsTrees) return
 
       const blockPositions = getTetrominoBlockPositions(type, position, rotation)
       
@@ -101,7 +122,7 @@ export function useTreePlacements(
 
       if (newGrassBlocks.length > 0) {
         // Generate trees for new grass blocks
-        const newPlacements = generateTreePlacements(newGrassBlocks)
+        const newPlacements = generateTreePlacements(newGrassBlocks, getTreeRandom(seed))
         
         // Add unique IDs and removing state
         const newPlacementsWithState: TreePlacementWithState[] = newPlacements.map((placement) => ({
@@ -119,9 +140,46 @@ export function useTreePlacements(
         })
       }
     },
-    [getTetrominoBlockPositions]
+    [getTetrominoBlockPositions, seed]
   )
 
+  // Function to grow trees again on grass blocks that were uncovered (demolished blocks above them)
+  const regrowTreesOnBlocks = useCallback((blockPositions: Position[]) => {
+    const grassBlocks = blockPositions
+      .filter((position) => {
+        const material = boardState.get(position.join(','))
+        return material !== undefined && MATERIALS[material].growsTrees
+      })
+      .map(([x, y, z]) => ({ x, y, z }))
+    if (grassBlocks.length === 0) return
+
+    const placements: TreePlacementWithState[] = generateTreePlacements(grassBlocks, getTreeRandom(seed)).map((placement) => ({
+      ...placement,
+      id: `tree-${nextTreeIdRef.current++}`,
+      removing: false,
+    }))
+    setTreePlacements((prev) => [...prev, ...placements])
+  }, [boardState, seed])
+
+  // Function to remove trees that are under (or standing on) any of the given blocks
+  const removeTreesUnderBlocks = useCallback((blockPositions: Position[]) => {
+    setTreePlacements((prev) => {
+      return prev.map((tree) => {
+        // Check if this tree is under any of the blocks
+        const isUnderBlock = blockPositions.some((blockPos) =>
+          isTreeUnderBlock(tree.position, blockPos)
+        )
+        
+        if (isUnderBlock && !tree.removing) {
+          // Mark tree for removal (will trigger animation)
+          return { ...tree, removing: true }
+        }
+        
+        return tree
+      })
+    })
+  }, [])
+
   // Function to remove trees that are under a dropped tetromino
   const removeTreesUnderTetromino = useCallback(
     (
@@ -129,25 +187,9 @@ export function useTreePlacements(
       position: Position,
       rotation: Rotation
     ) => {
-      const blockPositions = getTetrominoBlockPositions(type, position, rotation)
-      
-      setTreePlacements((prev) => {
-        return prev.map((tree) => {
-          // Check if this tree is under any of the tetromino blocks
-          const isUnderBlock = blockPositions.some((blockPos) =>
-            isTreeUnderBlock(tree.position, blockPos)
-          )
-          
-          if (isUnderBlock && !tree.removing) {
-            // Mark tree for removal (will trigger animation)
-            return { ...tree, removing: true }
-          }
-          
-          return tree
-        })
-      })
+      removeTreesUnderBlocks(getTetrominoBlockPositions(type, position, rotation))
     },
-    [getTetrominoBlockPositions]
+    [getTetrominoBlockPositions, removeTreesUnderBlocks]
   )
 
   // Function to remove a tree after animation completes
@@ -155,10 +197,59 @@ export function useTreePlacements(
     setTreePlacements((prev) => prev.filter((tree) => tree.id !== treeId))
   }, [])
 
+  // Function to restore a previous set of trees (undo/redo, loading saves)
+  // Trees missing from the restored set animate out, restored trees animate back in
+  const restoreTreePlacements = useCallback(
+    (placements: TreePlacementWithState[], restoredBoardState: Map<string, MaterialType>) => {
+      const restoredIds = new Set(placements.map((tree) => tree.id))
+
+      setTreePlacements((prev) => {
+        const currentIds = new Set(prev.map((tree) => tree.id))
+        const updated = prev.map((tree) => ({ ...tree, removing: !restoredIds.has(tree.id) }))
+        const restored = placements
+          .filter((tree) => !currentIds.has(tree.id))
+          .map((tree) => ({ ...tree, removing: false }))
+        return [...updated, ...restored]
+      })
+
+      // Keep generated ids unique when restored trees come from a save
+      nextTreeIdRef.current = getNextTreeId(placements, nextTreeIdRef.current)
+
+      // Grass blocks of the restored board already had their trees generated
+      processedBlocksRef.current = getGrassBlockKeys(restoredBoardState)
+    },
+    []
+  )
+
+  // Function to replace all trees with freshly generated ones (importing a shared world, new worlds)
+  const regenerateTreePlacements = useCallback(
+    (restoredBoardState: Map<string, MaterialType>, restoredSeed: number) => {
+      const grassBlocks = getGrassBlockPositions(restoredBoardState)
+      const treeRandom = getTreeRandom(restoredSeed)
+      const placements: TreePlacementWithState[] = generateTreePlacements(grassBlocks, treeRandom).map((placement) => ({
+        ...placement,
+        id: `tree-${nextTreeIdRef.current++}`,
+        removing: false,
+      }))
+
+      setTreePlacements((prev) => [
+        ...prev.map((tree) => ({ ...tree, removing: true })),
+        ...placements,
+      ])
+
+      processedBlocksRef.current = getGrassBlockKeys(restoredBoardState)
+    },
+    []
+  )
+
   return {
     treePlacements,
     addTreesForTetromino,
     removeTreesUnderTetromino,
+    removeTreesUnderBlocks,
+    regrowTreesOnBlocks,
     removeTree,
+    restoreTreePlacements,
+    regenerateTreePlacements,
   }
 }
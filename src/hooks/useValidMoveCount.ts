@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react'
+import { type GameState, type TetrominoType, findValidMovesForType } from '../engine'
+
+/**
+ * Exact number of valid landings for the pieces in play, counted off the render path
+ * One piece type is solved per task so the UI stays responsive; null while counting
+ * Types are compared by value, so passing the same pieces again doesn't restart the count
+ */
+export function useValidMoveCount(
+  board: Pick<GameState, 'boardSize' | 'boardState' | 'highestY'>,
+  types: TetrominoType[]
+): number | null {
+  const { boardSize, boardState, highestY } = board
+  const typesKey = types.join('|')
+  // A finished count, with the inputs it was counted for
+  const [result, setResult] = useState<{
+    boardSize: typeof boardSize
+    boardState: typeof boardState
+    typesKey: string
+    count: number
+  } | null>(null)
+
+  useEffect(() => {
+    const pending = typesKey === '' ? [] : typesKey.split('|') as TetrominoType[]
+    let total = 0
+    let timeout: ReturnType<typeof setTimeout>
+
+    const countNext = () => {
+      const type = pending.shift()
+      if (type === undefined) {
+        setResult({ boardSize, boardState, typesKey, count: total })
+        return
+      }
+      total += findValidMovesForType({ boardSize, boardState, highestY }, type).length
+      timeout = setTimeout(countNext, 0)
+    }
+    timeout = setTimeout(countNext, 0)
+    return () => clearTimeout(timeout)
+  }, [boardSize, boardState, highestY, typesKey])
+
+  const isCurrent = result?.boardSize === boardSize && result.boardState === boardState && result.typesKey === typesKey
+  return isCurrent ? result.count : null
+}
@@ -0,0 +1,82 @@
+import { useState, useCallback, useMemo } from 'react'
+import { type MaterialType } from '../utils/materials'
+import {
+  type GameSnapshot,
+  type History,
+  createHistory,
+  recordHistory,
+  undoHistory,
+  redoHistory,
+} from '../engine'
+import { type TreePlacementWithState } from './useTreePlacements'
+
+// Everything an undo step restores: engine board/queue plus the trees grown on it
+export type WorldSnapshot = {
+  game: GameSnapshot
+  trees: TreePlacementWithState[]
+}
+
+type UseWorldHistoryOptions = {
+  snapshot: GameSnapshot
+  treePlacements: TreePlacementWithState[]
+  isDropping: boolean
+  restoreSnapshot: (snapshot: GameSnapshot) => void
+  restoreTreePlacements: (
+    placements: TreePlacementWithState[],
+    restoredBoardState: Map<string, MaterialType>
+  ) => void
+}
+
+/**
+ * Hook to manage bounded undo/redo of placed tetrominoes (and the holds, discards and demolitions between them)
+ * Call record() right before a change is committed (i.e. when a drop starts)
+ */
+export function useWorldHistory({
+  snapshot,
+  treePlacements,
+  isDropping,
+  restoreSnapshot,
+  restoreTreePlacements,
+}: UseWorldHistoryOptions) {
+  const [history, setHistory] = useState<History<WorldSnapshot>>(createHistory)
+
+  // Trees that are already animating out are not part of the world anymore
+  const current = useMemo<WorldSnapshot>(() => ({
+    game: snapshot,
+    trees: treePlacements.filter((tree) => !tree.removing),
+  }), [snapshot, treePlacements])
+
+  const record = useCallback(() => {
+    setHistory((prev) => recordHistory(prev, current))
+  }, [current])
+
+  const restore = useCallback((target: WorldSnapshot) => {
+    restoreSnapshot(target.game)
+    restoreTreePlacements(target.trees, target.game.boardState)
+  }, [restoreSnapshot, restoreTreePlacements])
+
+  const undo = useCallback(() => {
+    // Never rewind under a tetromino that is still animating into the board
+    if (isDropping) return
+    const result = undoHistory(history, current)
+    if (!result) return
+    setHistory(result.history)
+    restore(result.snapshot)
+  }, [isDropping, history, current, restore])
+
+  const redo = useCallback(() => {
+    if (isDropping) return
+    const result = redoHistory(history, current)
+    if (!result) return
+    setHistory(result.history)
+    restore(result.snapshot)
+  }, [isDropping, history, current, restore])
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
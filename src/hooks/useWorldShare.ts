@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react'
+import { type GameSnapshot } from '../engine'
+import { encodeWorld, decodeWorld, getWorldLink, clearWorldCodeFromUrl } from '../utils/worldCode'
+
+type UseWorldShareOptions = {
+  world: GameSnapshot
+  canImport: boolean
+  onImport: (world: GameSnapshot) => void
+  initialError?: string | null
+}
+
+/**
+ * Hook to export the world as a share code / link and import pasted codes
+ * A world passed through the ?world= URL parameter is read by the caller on startup (see readWorldFromUrl)
+ */
+export function useWorldShare({ world, canImport, onImport, initialError = null }: UseWorldShareOptions) {
+  const [error, setError] = useState<string | null>(initialError)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // The URL parameter has been consumed on startup, keep reloads on the autosave
+  useEffect(() => {
+    clearWorldCodeFromUrl()
+  }, [])
+
+  const copyToClipboard = useCallback((text: string, label: string) => {
+    navigator.clipboard.writeText(text)
+      .then(() => {
+        setNotice(`${label} copied`)
+        setError(null)
+      })
+      .catch((copyError: unknown) => {
+        setNotice(null)
+        setError(`Could not copy: ${copyError instanceof Error ? copyError.message : String(copyError)}`)
+      })
+  }, [])
+
+  // Worlds that can't be encoded report why instead of copying
+  const copyEncoded = useCallback((toText: (code: string) => string, label: string) => {
+    let code: string
+    try {
+      code = encodeWorld(world)
+    } catch (encodeError) {
+      setNotice(null)
+      setError(encodeError instanceof Error ? encodeError.message : String(encodeError))
+      return
+    }
+    copyToClipboard(toText(code), label)
+  }, [world, copyToClipboard])
+
+  const copyCode = useCallback(() => {
+    copyEncoded((code) => code, 'Code')
+  }, [copyEncoded])
+
+  const copyLink = useCallback(() => {
+    copyEncoded(getWorldLink, 'Link')
+  }, [copyEncoded])
+
+  // Returns true when the code was imported
+  const importCode = useCallback((code: string) => {
+    if (!canImport) return false
+    setNotice(null)
+    try {
+      onImport(decodeWorld(code))
+      setError(null)
+      return true
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError))
+      return false
+    }
+  }, [canImport, onImport])
+
+  return {
+    error,
+    notice,
+    copyCode,
+    copyLink,
+    importCode,
+  }
+}
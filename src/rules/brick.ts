@@ -1,7 +1,7 @@
-import { type DecorationRule } from './types'
+import { type DecorationRule, type DecorationPlacement, type BaseDecorator } from './types'
 import { Grid, type Position } from '../utils/Grid'
 import { type FaceDirection } from '../utils/faceCulling'
-import { detectCorners, getCornerKey } from './utils'
+import { detectCorners, getCornerKey, getFaceRotation } from './utils'
 
 // Base decorations for brick
 export function getBrickBaseDecorations(
@@ -127,3 +127,30 @@ export function getBrickRoofDecoration(
       return null
   }
 }
+
+// Walls on every visible side, and a roof when nothing is on top
+export const decorateBrickBase: BaseDecorator = (blockPos, { grid, faces, decoratedCorners, delay }) => {
+  const [x, y, z] = blockPos
+  const placements: DecorationPlacement[] = []
+
+  for (const face of faces) {
+    for (const decorationName of getBrickBaseDecorations(blockPos, face, grid, decoratedCorners)) {
+      placements.push({ position: blockPos, face, decorationName, rotation: getFaceRotation(face), delay })
+    }
+  }
+
+  if (!grid.has(x, y + 1, z)) {
+    const roofDecoration = getBrickRoofDecoration(blockPos, grid)
+    if (roofDecoration) {
+      placements.push({
+        position: blockPos,
+        face: 'top',
+        decorationName: roofDecoration.decorationName,
+        rotation: roofDecoration.rotation,
+        delay,
+      })
+    }
+  }
+
+  return placements
+}
@@ -1,43 +1,25 @@
 import { Grid, type Position } from '../utils/Grid'
-import { type MaterialType } from '../utils/materials'
+import { type MaterialType, MATERIALS, MATERIAL_TYPES } from '../utils/materials'
 import { type FaceDirection } from '../utils/faceCulling'
 import { type DecorationPlacement, type DecorationCategory, type DecorationRule } from './types'
-import { seededRandom, getFaceRotation } from './utils'
-import { 
-  getBrickBaseDecorations, 
-  getBrickRoofDecoration, 
-  brickDoorRule, 
-  brickWindowRule, 
-  brickPatternRule 
-} from './brick'
-import { 
-  getWoodBaseDecorations, 
-  getWoodRoofDecorations, 
-  woodDoorRule, 
-  woodWindowRule, 
-  woodPatternRule 
-} from './wood'
-import { getWaterDecorations } from './water'
+import { Random } from '../utils/random'
+import { getFaceRotation } from './utils'
+import { getWaterfallDecorations } from './water'
+import { type WaterState } from '../engine/water'
 
 export * from './types'
 export * from './utils'
 
-export const DECORATION_RULES: DecorationRule[] = [
-  brickDoorRule,
-  brickWindowRule,
-  brickPatternRule,
-  woodDoorRule,
-  woodWindowRule,
-  woodPatternRule,
-]
+// Random decoration rules of every material (see MaterialDefinition)
+export const DECORATION_RULES: DecorationRule[] = MATERIAL_TYPES.flatMap(
+  (material) => MATERIALS[material].decorations.rules
+)
 
 function selectRandomDecoration(
   matchingRules: DecorationRule[],
   blockPos: Position,
   face: FaceDirection,
-  // grid is unused in this implementation but kept for signature compatibility if needed in future
-  // or removed if not needed. The linter complained it was unused.
-  // I will remove it from params if not used.
+  random: Random
 ): string | null {
   if (matchingRules.length === 0) return null
   
@@ -61,18 +43,18 @@ function selectRandomDecoration(
     options = [...allDecorationNames, null]
   }
   
-  const seed = `${blockPos.join(',')}-${face}`
-  const random = seededRandom(seed)
-  
-  const selectedIndex = Math.floor(random * options.length)
-  return options[selectedIndex]
+  // Each block face gets its own stream so unrelated board changes don't reshuffle decorations
+  return random.split(`${blockPos.join(',')}-${face}`).pick(options)
 }
 
 export function getDecorationPlacements(
-  boardState: Map<string, MaterialType> | Grid
+  boardState: Map<string, MaterialType> | Grid,
+  seed: number,
+  water: WaterState = new Map()
 ): DecorationPlacement[] {
   // Ensure we have a Grid
   const grid = boardState instanceof Grid ? boardState : new Grid(boardState)
+  const random = new Random(seed).split('decorations')
   
   console.log('[Decoration] Generating decorations for board state with', grid.size, 'blocks')
   const placements: DecorationPlacement[] = []
@@ -92,7 +74,7 @@ export function getDecorationPlacements(
     const [x, y, z] = key.split(',').map(Number)
     const blockPos: Position = [x, y, z]
     
-    if (y === 0 && material !== 'water') return
+    if (y === 0 && !MATERIALS[material].decorations.decorateGroundLevel) return
     
     for (const category of categories) {
       const delay = categoryDelays[category]
@@ -102,78 +84,13 @@ export function getDecorationPlacements(
       )
       
       if (category === 'base') {
-        if (material === 'brick') {
-          for (const face of visibleHorizontalFaces) {
-            const decorationNames = getBrickBaseDecorations(blockPos, face, grid, decoratedCorners)
-            for (const decorationName of decorationNames) {
-              placements.push({
-                position: blockPos,
-                face,
-                decorationName,
-                rotation: getFaceRotation(face),
-                delay,
-              })
-            }
-          }
-          
-          if (!grid.has(x, y + 1, z)) {
-            const roofDecoration = getBrickRoofDecoration(blockPos, grid)
-            if (roofDecoration) {
-              placements.push({
-                position: blockPos,
-                face: 'top',
-                decorationName: roofDecoration.decorationName,
-                rotation: roofDecoration.rotation,
-                delay,
-              })
-            }
-          }
-        } else if (material === 'wood') {
-          for (const face of visibleHorizontalFaces) {
-            const decorationNames = getWoodBaseDecorations(blockPos, face, grid, decoratedCorners)
-            for (const decorationName of decorationNames) {
-              placements.push({
-                position: blockPos,
-                face,
-                decorationName,
-                rotation: getFaceRotation(face),
-                delay,
-              })
-            }
-          }
-          
-          if (!grid.has(x, y + 1, z)) {
-            const woodRoofDecorations = getWoodRoofDecorations(blockPos, grid)
-            for (const roof of woodRoofDecorations) {
-              placements.push({
-                position: blockPos,
-                face: roof.face,
-                decorationName: roof.decorationName,
-                rotation: roof.rotation,
-                delay,
-              })
-            }
-            
-            const chimneySeed = `${blockPos.join(',')}-top-chimney`
-            if (seededRandom(chimneySeed) < 0.25) {
-              placements.push({
-                position: blockPos,
-                face: 'top',
-                decorationName: 'Chimney_1',
-                rotation: getFaceRotation('top'),
-                delay,
-              })
-            }
-          }
-        } else if (material === 'water') {
-          for (const face of visibleHorizontalFaces) {
-            const waterDecos = getWaterDecorations(blockPos, face, grid, delay)
-            placements.push(...waterDecos)
-          }
+        const decorateBase = MATERIALS[material].decorations.base
+        if (decorateBase) {
+          placements.push(...decorateBase(blockPos, { grid, faces: visibleHorizontalFaces, decoratedCorners, random, delay }))
         }
       } else {
-        const applicableRules = DECORATION_RULES.filter(
-          rule => rule.material === material && rule.category === category
+        const applicableRules = MATERIALS[material].decorations.rules.filter(
+          rule => rule.category === category
         )
         
         for (const face of visibleHorizontalFaces) {
@@ -182,8 +99,7 @@ export function getDecorationPlacements(
           )
           
           if (matchingRules.length > 0) {
-            // Removed grid argument from selectRandomDecoration call
-            const selectedName = selectRandomDecoration(matchingRules, blockPos, face)
+            const selectedName = selectRandomDecoration(matchingRules, blockPos, face, random)
             if (selectedName) {
               placements.push({
                 position: blockPos,
@@ -198,6 +114,8 @@ export function getDecorationPlacements(
       }
     }
   })
+
+  placements.push(...getWaterfallDecorations(water, grid, categoryDelays.base))
   
   const waterDecorations = placements.filter(p => p.decorationName.startsWith('Water_') || p.decorationName.startsWith('Bubble_'))
   console.log(`[Decoration] Generated ${placements.length} total decorations (${waterDecorations.length} water-related)`)
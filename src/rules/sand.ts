@@ -0,0 +1,25 @@
+import { type DecorationPlacement, type BaseDecorator } from './types'
+import { getFaceRotation } from './utils'
+
+// Pebbles left on uncovered sand
+const SAND_TOP_DECORATIONS = ['Stone_1.001', 'Stone_2.001']
+
+export const decorateSandBase: BaseDecorator = (blockPos, { grid, random, delay }) => {
+  const [x, y, z] = blockPos
+  const placements: DecorationPlacement[] = []
+
+  if (!grid.has(x, y + 1, z)) {
+    const blockRandom = random.split(`${blockPos.join(',')}-top-pebble`)
+    if (blockRandom.next() < 0.15) {
+      placements.push({
+        position: blockPos,
+        face: 'top',
+        decorationName: SAND_TOP_DECORATIONS[Math.floor(blockRandom.next() * SAND_TOP_DECORATIONS.length)],
+        rotation: getFaceRotation('top'),
+        delay,
+      })
+    }
+  }
+
+  return placements
+}
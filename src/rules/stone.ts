@@ -0,0 +1,25 @@
+import { type DecorationPlacement, type BaseDecorator } from './types'
+import { getFaceRotation } from './utils'
+
+// Boulders scattered over uncovered stone
+const STONE_TOP_DECORATIONS = ['Rock_Group', 'Rock_3']
+
+export const decorateStoneBase: BaseDecorator = (blockPos, { grid, random, delay }) => {
+  const [x, y, z] = blockPos
+  const placements: DecorationPlacement[] = []
+
+  if (!grid.has(x, y + 1, z)) {
+    const blockRandom = random.split(`${blockPos.join(',')}-top-rock`)
+    if (blockRandom.next() < 0.3) {
+      placements.push({
+        position: blockPos,
+        face: 'top',
+        decorationName: STONE_TOP_DECORATIONS[Math.floor(blockRandom.next() * STONE_TOP_DECORATIONS.length)],
+        rotation: getFaceRotation('top'),
+        delay,
+      })
+    }
+  }
+
+  return placements
+}
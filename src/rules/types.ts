@@ -1,6 +1,7 @@
 import { type MaterialType } from '../utils/materials'
 import { type FaceDirection } from '../utils/faceCulling'
 import { Grid, type Position } from '../utils/Grid'
+import { type Random } from '../utils/random'
 
 export type DecorationCategory = 'base' | 'primary' | 'secondary'
 
@@ -36,3 +37,14 @@ export interface DecorationRule {
     grid: Grid
   ) => boolean
 }
+
+export interface BaseDecorationContext {
+  grid: Grid
+  faces: FaceDirection[] // Visible side faces of the block
+  decoratedCorners: Set<string> // Corners already decorated by a neighbouring block
+  random: Random
+  delay: number
+}
+
+// Decorations a material always gets on a block (walls, roofs, rocks)
+export type BaseDecorator = (blockPos: Position, context: BaseDecorationContext) => DecorationPlacement[]
@@ -96,13 +96,3 @@ export function getFaceRotation(face: FaceDirection): [number, number, number] {
     default: return [0, 0, 0]
   }
 }
-
-export function seededRandom(seed: string): number {
-  let hash = 0
-  for (let i = 0; i < seed.length; i++) {
-    const char = seed.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash | 0
-  }
-  return Math.abs(hash) / 2147483647
-}
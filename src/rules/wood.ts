@@ -1,7 +1,7 @@
-import { type DecorationRule } from './types'
+import { type DecorationRule, type DecorationPlacement, type BaseDecorator } from './types'
 import { Grid, type Position } from '../utils/Grid'
 import { type FaceDirection } from '../utils/faceCulling'
-import { detectCorners, getCornerKey } from './utils'
+import { detectCorners, getCornerKey, getFaceRotation } from './utils'
 
 // Base decorations for wood
 export function getWoodBaseDecorations(
@@ -167,3 +167,39 @@ export function getWoodRoofDecorations(
   
   return placements
 }
+
+// Walls on every visible side; roof tiles and sometimes a chimney when nothing is on top
+export const decorateWoodBase: BaseDecorator = (blockPos, { grid, faces, decoratedCorners, random, delay }) => {
+  const [x, y, z] = blockPos
+  const placements: DecorationPlacement[] = []
+
+  for (const face of faces) {
+    for (const decorationName of getWoodBaseDecorations(blockPos, face, grid, decoratedCorners)) {
+      placements.push({ position: blockPos, face, decorationName, rotation: getFaceRotation(face), delay })
+    }
+  }
+
+  if (!grid.has(x, y + 1, z)) {
+    for (const roof of getWoodRoofDecorations(blockPos, grid)) {
+      placements.push({
+        position: blockPos,
+        face: roof.face,
+        decorationName: roof.decorationName,
+        rotation: roof.rotation,
+        delay,
+      })
+    }
+
+    if (random.split(`${blockPos.join(',')}-top-chimney`).next() < 0.25) {
+      placements.push({
+        position: blockPos,
+        face: 'top',
+        decorationName: 'Chimney_1',
+        rotation: getFaceRotation('top'),
+        delay,
+      })
+    }
+  }
+
+  return placements
+}
@@ -1,4 +1,4 @@
-import { type MaterialType } from './materials'
+import { type MaterialType, isFaceOccluded } from './materials'
 import { type FaceDirection } from './faceCulling'
 
 export type Position = [number, number, number]
@@ -63,10 +63,9 @@ export class Grid {
     }
   }
 
-  // Check if a face is visible (no opaque block blocking it)
-  // Currently we treat all blocks as opaque for simple visibility
+  // Check if a face is visible (no opaque block blocking it, see isFaceOccluded)
   isFaceVisible(x: number, y: number, z: number, direction: FaceDirection): boolean {
-    return !this.getNeighbor(x, y, z, direction)
+    return !isFaceOccluded(this.get(x, y, z), this.getNeighbor(x, y, z, direction))
   }
 
   // Get surrounding 3x3x3 matrix of materials (optional optimization for rules)
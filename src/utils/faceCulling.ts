@@ -1,4 +1,5 @@
 import { Grid } from './Grid'
+import { isFaceOccluded, isMaterialType } from './materials'
 
 type Position = [number, number, number]
 
@@ -41,9 +42,13 @@ export function isFaceVisible(
       break
   }
 
-  // Handle both Set and Map
+  // Maps of materials know about see-through blocks, anything else is treated as opaque
   if (occupiedBlocks instanceof Map) {
-    return !occupiedBlocks.has(neighborKey)
+    const material: unknown = occupiedBlocks.get(`${x},${y},${z}`)
+    const neighbor: unknown = occupiedBlocks.get(neighborKey)
+    if (isMaterialType(neighbor)) {
+      return !isFaceOccluded(isMaterialType(material) ? material : undefined, neighbor)
+    }
   }
   return !occupiedBlocks.has(neighborKey)
 }
@@ -1,12 +1,196 @@
-export type MaterialType = 'grass' | 'brick' | 'wood' | 'water'
+import { type DecorationRule, type BaseDecorator } from '../rules/types'
+import { decorateBrickBase, brickDoorRule, brickWindowRule, brickPatternRule } from '../rules/brick'
+import { decorateWoodBase, woodDoorRule, woodWindowRule, woodPatternRule } from '../rules/wood'
+import { decorateStoneBase } from '../rules/stone'
+import { decorateSandBase } from '../rules/sand'
 
-export const MATERIAL_COLORS: Record<MaterialType, string> = {
-  grass: '#bddf7b',
-  brick: '#888880',
-  wood: '#f4e9cb',
-  water: '#4fc3f7',
+export type MaterialType = 'grass' | 'brick' | 'wood' | 'water' | 'stone' | 'sand' | 'glass'
+
+// How a block hides the faces next to it (see isFaceOccluded)
+export type OpacityClass = 'opaque' | 'transparent' | 'liquid'
+
+// Where a block of the material may rest (checked block by block when a tetromino lands)
+export interface MaterialSupportRules {
+  allowedBelow: MaterialType[] | 'any' // Materials the block may sit directly on
+  groundLevel: boolean // Always valid at ground level (y = 0), whatever is below
+  maxSpan: number // Blocks it may reach out sideways from a support through the same material (see engine/integrity)
+  collapse: 'fall' | 'crumble' // What unsupported blocks do
+  needsContact: boolean // Tetrominoes of the material must touch an existing block
+  falls: boolean // Lands anywhere, then drops until something is below (see engine/gravity)
+}
+
+export interface MaterialDecorations {
+  decorateGroundLevel: boolean // Ground-level blocks stay bare unless set
+  base?: BaseDecorator // Always applied (walls, roofs, ...)
+  rules: DecorationRule[] // Primary and secondary decorations, picked at random among the matching ones
+}
+
+export interface MaterialDefinition {
+  label: string
+  color: string
+  opacity: OpacityClass
+  support: MaterialSupportRules
+  decorations: MaterialDecorations
+  growsTrees: boolean // Trees sprout on open blocks of the material
+  building: boolean // Connected blocks form houses (see engine/scoring)
+  queueWeight: number // Relative chance for the weighted queue generator
+}
+
+// Every material, declared once; subsystems read their behaviour from here
+// Order is positional in share codes (see utils/worldCode), so only ever append
+export const MATERIALS: Record<MaterialType, MaterialDefinition> = {
+  grass: {
+    label: 'Grass',
+    color: '#bddf7b',
+    opacity: 'opaque',
+    support: {
+      allowedBelow: ['grass'],
+      groundLevel: true,
+      maxSpan: 0,
+      collapse: 'fall',
+      needsContact: true,
+      falls: false,
+    },
+    decorations: { decorateGroundLevel: false, rules: [] },
+    growsTrees: true,
+    building: false,
+    queueWeight: 0.25,
+  },
+  brick: {
+    label: 'Brick',
+    color: '#888880',
+    opacity: 'opaque',
+    support: {
+      allowedBelow: ['brick', 'grass', 'stone'],
+      groundLevel: false,
+      maxSpan: 2,
+      collapse: 'crumble',
+      needsContact: false,
+      falls: false,
+    },
+    decorations: {
+      decorateGroundLevel: false,
+      base: decorateBrickBase,
+      rules: [brickDoorRule, brickWindowRule, brickPatternRule],
+    },
+    growsTrees: false,
+    building: true,
+    queueWeight: 0.25,
+  },
+  wood: {
+    label: 'Wood',
+    color: '#f4e9cb',
+    opacity: 'opaque',
+    support: {
+      allowedBelow: 'any',
+      groundLevel: false,
+      maxSpan: 3,
+      collapse: 'crumble',
+      needsContact: false,
+      falls: false,
+    },
+    decorations: {
+      decorateGroundLevel: false,
+      base: decorateWoodBase,
+      rules: [woodDoorRule, woodWindowRule, woodPatternRule],
+    },
+    growsTrees: false,
+    building: true,
+    queueWeight: 0.25,
+  },
+  water: {
+    label: 'Water',
+    color: '#4fc3f7',
+    opacity: 'liquid',
+    // Flows from where it is placed (see engine/water); it may sit on terrain above ground level
+    // so it can pour off ledges, but not on buildings
+    support: {
+      allowedBelow: ['grass', 'stone', 'sand'],
+      groundLevel: true,
+      maxSpan: 0,
+      collapse: 'crumble',
+      needsContact: false,
+      falls: false,
+    },
+    decorations: { decorateGroundLevel: false, rules: [] }, // Waterfalls follow the flow (see rules/water)
+    growsTrees: false,
+    building: false,
+    queueWeight: 0.25,
+  },
+  // Bears brick and wood, and can be set into water
+  stone: {
+    label: 'Stone',
+    color: '#7d8087',
+    opacity: 'opaque',
+    support: {
+      allowedBelow: ['grass', 'stone', 'sand', 'water'],
+      groundLevel: true,
+      maxSpan: 0,
+      collapse: 'fall',
+      needsContact: false,
+      falls: false,
+    },
+    decorations: { decorateGroundLevel: true, base: decorateStoneBase, rules: [] },
+    growsTrees: false,
+    building: false,
+    queueWeight: 0.15,
+  },
+  sand: {
+    label: 'Sand',
+    color: '#e6d29a',
+    opacity: 'opaque',
+    support: {
+      allowedBelow: 'any',
+      groundLevel: true,
+      maxSpan: 0,
+      collapse: 'fall',
+      needsContact: true,
+      falls: true,
+    },
+    decorations: { decorateGroundLevel: true, base: decorateSandBase, rules: [] },
+    growsTrees: false,
+    building: false,
+    queueWeight: 0.15,
+  },
+  glass: {
+    label: 'Glass',
+    color: '#d6f1fa',
+    opacity: 'transparent',
+    support: {
+      allowedBelow: ['grass', 'brick', 'wood', 'stone', 'glass'],
+      groundLevel: false,
+      maxSpan: 1,
+      collapse: 'crumble',
+      needsContact: false,
+      falls: false,
+    },
+    decorations: { decorateGroundLevel: false, rules: [] },
+    growsTrees: false,
+    building: false,
+    queueWeight: 0.1,
+  },
 }
 
+export const MATERIAL_TYPES = Object.keys(MATERIALS) as MaterialType[]
+
+export function isMaterialType(value: unknown): value is MaterialType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MATERIALS, value)
+}
+
+// Whether the face of a `material` block is hidden by its `neighbor`
+// Opaque blocks hide everything; see-through ones only hide faces between blocks of the same
+// material, so the inside of a glass wall or a lake stays culled
+export function isFaceOccluded(material: MaterialType | undefined, neighbor: MaterialType | undefined): boolean {
+  if (!neighbor) return false
+  if (MATERIALS[neighbor].opacity === 'opaque') return true
+  return material === neighbor
+}
+
+export const MATERIAL_COLORS = Object.fromEntries(
+  MATERIAL_TYPES.map((material) => [material, MATERIALS[material].color])
+) as Record<MaterialType, string>
+
+export const TRANSPARENT_OPACITY = 0.35 // Material opacity of transparent blocks
 export const ROOF_COLOR = '#ff6663'
 export const SKY_COLOR = '#3c91e6' // Day sky color
 export const SKY_COLOR_SUNSET = '#9675f0' // Purple sunset color
@@ -14,12 +198,10 @@ export const SKY_COLOR_NIGHT = '#1a1a2e' // Night sky color
 
 // Get random material type
 export function getRandomMaterial(): MaterialType {
-  const materials: MaterialType[] = ['grass', 'brick', 'wood', 'water']
-  return materials[Math.floor(Math.random() * materials.length)]
+  return MATERIAL_TYPES[Math.floor(Math.random() * MATERIAL_TYPES.length)]
 }
 
 // Get color for a material
 export function getMaterialColor(material: MaterialType): string {
-  return MATERIAL_COLORS[material]
+  return MATERIALS[material].color
 }
-
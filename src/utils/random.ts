@@ -51,3 +51,66 @@ export function pickByChance<T>(
   return items[items.length - 1] ?? null
 }
 
+
+/**
+ * Seeded pseudo-random number generator (mulberry32).
+ *
+ * All world randomness (queue, trees, decorations) is derived from one session seed,
+ * so the same seed and the same moves reproduce the same world.
+ * Use split() to hand a subsystem its own stream instead of sharing one sequence.
+ */
+export class Random {
+  private current: number
+
+  constructor(state: number) {
+    this.current = state >>> 0
+  }
+
+  static fromSeed(seed: number | string): Random {
+    return new Random(typeof seed === 'number' ? seed : hashString(seed))
+  }
+
+  // Internal state, enough to resume the sequence later (e.g. stored in a save)
+  get state(): number {
+    return this.current
+  }
+
+  // Next value in [0, 1)
+  next(): number {
+    this.current = (this.current + 0x6d2b79f5) >>> 0
+    let t = this.current
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  // Integer in [0, max)
+  int(max: number): number {
+    return Math.floor(this.next() * max)
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)]
+  }
+
+  // Independent stream for a label; does not advance this one, so e.g. the trees
+  // of a block never depend on the order blocks happen to be processed in
+  split(label: string): Random {
+    return new Random(hashString(label, this.current))
+  }
+}
+
+// 32-bit FNV-1a hash of a string, mixed with an optional seed
+export function hashString(value: string, seed: number = 0): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+// Fresh session seed; the only place world randomness comes from outside the seed
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296)
+}
@@ -0,0 +1,317 @@
+import { type MaterialType, isMaterialType } from './materials'
+import { type TreePlacement } from './treeGeneration'
+import {
+  type BoardSize,
+  type GameSnapshot,
+  type QueueGeneratorId,
+  type ShapeDefinition,
+  createQueueItem,
+  createShapeDefinition,
+  isTetrominoType,
+  isQueueGeneratorId,
+  MAX_DISCARD_CHARGE,
+} from '../engine'
+
+// Bump when the serialized shape changes and register a migration from the previous version
+export const SAVE_VERSION = 1
+
+const STORAGE_PREFIX = 'tetriscraft:save:'
+export const AUTOSAVE_SLOT = 'autosave'
+
+export type SavedTree = TreePlacement & { id: string }
+
+// Custom shapes are saved without their id, which is derived from the layout again on load
+export type SavedShape = Omit<ShapeDefinition, 'id'>
+
+// Runtime world as held by the game (custom shapes included), trees and day/night cycle
+export interface SaveWorld extends GameSnapshot {
+  trees: SavedTree[]
+  hour: number
+}
+
+// Serialized (JSON) form of a world, current version
+export interface SaveData {
+  version: typeof SAVE_VERSION
+  name: string
+  savedAt: number
+  boardSize: BoardSize
+  board: Array<[string, MaterialType]> // "x,y,z" -> material
+  highestY: number
+  queue: string[] // Tetromino types, materials are derived on load
+  trees: SavedTree[]
+  hour: number
+  seed: number
+  queueRandomState: number
+  queueGenerator: QueueGeneratorId
+  queuePending: string[]
+  heldPiece: string | null // Tetromino type
+  discardCharge: number
+  customShapes: SavedShape[]
+}
+
+// Upgrades a save from version N (key) to version N + 1
+// When new materials or fields are introduced, add an entry here instead of breaking old saves
+type SaveMigration = (data: Record<string, unknown>) => Record<string, unknown>
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {}
+
+export interface SaveSlotInfo {
+  id: string
+  name: string
+  savedAt: number
+}
+
+export function serializeWorld(world: SaveWorld, name: string): SaveData {
+  return {
+    version: SAVE_VERSION,
+    name,
+    savedAt: Date.now(),
+    boardSize: { ...world.boardSize },
+    board: Array.from(world.boardState.entries()),
+    highestY: world.highestY,
+    queue: world.queue.map((item) => item.type),
+    trees: world.trees.map(({ id, position, treeId, swayOffset, rotation }) => ({
+      id,
+      position,
+      treeId,
+      swayOffset,
+      rotation,
+    })),
+    hour: world.hour,
+    seed: world.seed,
+    queueRandomState: world.queueRandomState,
+    queueGenerator: world.queueGenerator,
+    queuePending: world.queuePending,
+    heldPiece: world.heldPiece?.type ?? null,
+    discardCharge: world.discardCharge,
+    customShapes: world.customShapes.map(({ label, material, blocks }) => ({ label, material, blocks })),
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isUint32(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff
+}
+
+function isBoardSize(value: unknown): value is BoardSize {
+  return isRecord(value) && [value.width, value.depth].every(
+    (n) => typeof n === 'number' && Number.isInteger(n) && n >= 1
+  )
+}
+
+function isNumberTuple(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n))
+}
+
+// Bring any known older version up to SAVE_VERSION
+function migrate(data: Record<string, unknown>): Record<string, unknown> {
+  let migrated = data
+  if (typeof migrated.version !== 'number' || !Number.isInteger(migrated.version) || migrated.version < 1) {
+    throw new Error('Save data has no version')
+  }
+
+  let version: number = migrated.version
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save data version ${version} is newer than supported version ${SAVE_VERSION}`)
+  }
+
+  while (version < SAVE_VERSION) {
+    const migration = SAVE_MIGRATIONS[version]
+    if (!migration) {
+      throw new Error(`No migration from save data version ${version}`)
+    }
+    migrated = migration(migrated)
+    version = migrated.version as number
+  }
+
+  return migrated
+}
+
+// Validate a migrated save and convert it back into a runtime world
+export function deserializeWorld(raw: unknown): SaveWorld {
+  if (!isRecord(raw)) {
+    throw new Error('Save data is not an object')
+  }
+  const data = migrate(raw)
+
+  const {
+    boardSize,
+    board,
+    highestY,
+    queue,
+    trees,
+    hour,
+    seed,
+    queueRandomState,
+    queueGenerator,
+    queuePending,
+    heldPiece,
+    discardCharge,
+    customShapes,
+  } = data
+  if (!isBoardSize(boardSize)) {
+    throw new Error('Save data has an invalid board size')
+  }
+  if (typeof highestY !== 'number' || !Number.isFinite(highestY)) {
+    throw new Error('Save data has an invalid highest Y')
+  }
+  if (!Array.isArray(board) || !Array.isArray(queue) || !Array.isArray(trees) || !Array.isArray(queuePending)) {
+    throw new Error('Save data is missing board, queue or trees')
+  }
+  if (!Array.isArray(customShapes)) {
+    throw new Error('Save data is missing custom shapes')
+  }
+
+  const shapes = customShapes.map((shape) => {
+    if (!isRecord(shape) || typeof shape.label !== 'string' || !Array.isArray(shape.blocks)) {
+      throw new Error('Save data has a malformed custom shape')
+    }
+    if (!shape.blocks.every(isNumberTuple)) {
+      throw new Error(`Save data has a malformed block in custom shape "${shape.label}"`)
+    }
+    try {
+      return createShapeDefinition(shape.label, shape.material, shape.blocks.map(([x, , z]) => [x, z]))
+    } catch (shapeError) {
+      throw new Error(`Save data has an invalid custom shape: ${shapeError instanceof Error ? shapeError.message : String(shapeError)}`)
+    }
+  })
+  if (heldPiece !== null && !isTetrominoType(heldPiece)) {
+    throw new Error(`Save data has an unknown held tetromino "${String(heldPiece)}"`)
+  }
+  if (typeof discardCharge !== 'number' || !Number.isInteger(discardCharge) || discardCharge < 0) {
+    throw new Error('Save data has an invalid discard charge')
+  }
+  if (!isQueueGeneratorId(queueGenerator)) {
+    throw new Error(`Save data has an unknown queue generator "${String(queueGenerator)}"`)
+  }
+  if (!isUint32(seed) || !isUint32(queueRandomState)) {
+    throw new Error('Save data has an invalid random seed')
+  }
+
+  const boardState = new Map<string, MaterialType>()
+  for (const entry of board) {
+    if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'string') {
+      throw new Error('Save data has a malformed board entry')
+    }
+    const [key, material] = entry
+    const coords = key.split(',').map(Number)
+    if (coords.length !== 3 || !coords.every(Number.isInteger)) {
+      throw new Error(`Save data has an invalid block position "${key}"`)
+    }
+    if (!isMaterialType(material)) {
+      throw new Error(`Save data has an unknown material "${String(material)}"`)
+    }
+    boardState.set(coords.join(','), material)
+  }
+
+  const queueTypes = [...queue, ...queuePending].map((type) => {
+    if (!isTetrominoType(type)) {
+      throw new Error(`Save data has an unknown tetromino "${String(type)}"`)
+    }
+    return type
+  })
+
+  const savedTrees = trees.map((tree) => {
+    if (
+      !isRecord(tree) ||
+      typeof tree.id !== 'string' ||
+      typeof tree.treeId !== 'number' ||
+      typeof tree.swayOffset !== 'number' ||
+      !isNumberTuple(tree.position) ||
+      !isNumberTuple(tree.rotation)
+    ) {
+      throw new Error('Save data has a malformed tree')
+    }
+    return {
+      id: tree.id,
+      treeId: tree.treeId,
+      swayOffset: tree.swayOffset,
+      position: tree.position,
+      rotation: tree.rotation,
+    }
+  })
+
+  return {
+    boardSize: { width: boardSize.width, depth: boardSize.depth },
+    boardState,
+    highestY,
+    queue: queueTypes.slice(0, queue.length).map(createQueueItem),
+    trees: savedTrees,
+    hour: typeof hour === 'number' && Number.isFinite(hour) ? hour : 8,
+    seed,
+    queueRandomState,
+    queueGenerator,
+    queuePending: queueTypes.slice(queue.length),
+    heldPiece: heldPiece !== null ? createQueueItem(heldPiece) : null,
+    discardCharge: Math.min(discardCharge, MAX_DISCARD_CHARGE),
+    customShapes: shapes,
+  }
+}
+
+function getStorageKey(slotId: string): string {
+  return `${STORAGE_PREFIX}${slotId}`
+}
+
+// Slot ids are derived from names so saving under an existing name overwrites it
+// (prefixed so a named save can never clobber the autosave)
+export function getSlotId(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `slot-${slug || 'untitled'}`
+}
+
+export function writeSaveSlot(slotId: string, world: SaveWorld, name: string): void {
+  localStorage.setItem(getStorageKey(slotId), JSON.stringify(serializeWorld(world, name)))
+}
+
+export function readSaveSlot(slotId: string): SaveWorld | null {
+  const json = localStorage.getItem(getStorageKey(slotId))
+  if (json === null) return null
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error(`Save "${slotId}" is not valid JSON`)
+  }
+  return deserializeWorld(parsed)
+}
+
+// Autosave to resume from on startup (a corrupt autosave starts a fresh world)
+export function readAutosave(): SaveWorld | null {
+  try {
+    return readSaveSlot(AUTOSAVE_SLOT)
+  } catch (error) {
+    console.warn('[saveData] Ignoring unreadable autosave', error)
+    return null
+  }
+}
+
+export function deleteSaveSlot(slotId: string): void {
+  localStorage.removeItem(getStorageKey(slotId))
+}
+
+// List saved slots, most recent first (unreadable entries are skipped)
+export function listSaveSlots(): SaveSlotInfo[] {
+  const slots: SaveSlotInfo[] = []
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key || !key.startsWith(STORAGE_PREFIX)) continue
+
+    try {
+      const data: unknown = JSON.parse(localStorage.getItem(key) ?? '')
+      if (!isRecord(data)) continue
+      slots.push({
+        id: key.slice(STORAGE_PREFIX.length),
+        name: typeof data.name === 'string' ? data.name : key.slice(STORAGE_PREFIX.length),
+        savedAt: typeof data.savedAt === 'number' ? data.savedAt : 0,
+      })
+    } catch {
+      console.warn('[saveData] Skipping unreadable save slot', key)
+    }
+  }
+
+  return slots.sort((a, b) => b.savedAt - a.savedAt)
+}
@@ -1,3 +1,6 @@
+import { Random } from './random'
+import { type MaterialType, MATERIALS } from './materials'
+
 type Position = [number, number, number]
 type BlockPosition = { x: number; y: number; z: number }
 
@@ -23,28 +26,15 @@ const DIAGONAL_PAIRS: Array<[number, number]> = [
 ]
 
 /**
- * Get all grass block positions from base board and placed blocks
+ * Get all grass block positions, from the world's terrain and placed blocks alike
  */
 export function getGrassBlockPositions(
-  boardSize: number,
-  boardState: Map<string, string>
+  boardState: Map<string, MaterialType>
 ): BlockPosition[] {
   const positions: BlockPosition[] = []
   
-  // Board bounds
-  const minCoord = 1 - Math.floor(boardSize / 2)
-  const maxCoord = 1 + Math.floor((boardSize - 1) / 2)
-  
-  // Add base board grass blocks (Y=0)
-  for (let x = minCoord; x <= maxCoord; x++) {
-    for (let z = minCoord; z <= maxCoord; z++) {
-      positions.push({ x, y: 0, z })
-    }
-  }
-  
-  // Add placed grass blocks from boardState
   boardState.forEach((material, key) => {
-    if (material === 'grass') {
+    if (MATERIALS[material].growsTrees) {
       const [x, y, z] = key.split(',').map(Number)
       positions.push({ x, y, z })
     }
@@ -56,10 +46,10 @@ export function getGrassBlockPositions(
 /**
  * Shuffle array in place using Fisher-Yates algorithm
  */
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: Random): T[] {
   const shuffled = [...array]
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = random.int(i + 1)
     ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
   }
   return shuffled
@@ -71,7 +61,8 @@ function shuffleArray<T>(array: T[]): T[] {
  */
 function getTreePositionsForBlock(
   blockPos: BlockPosition,
-  treeCount: number
+  treeCount: number,
+  random: Random
 ): Array<{ x: number; y: number; z: number }> {
   if (treeCount === 0) return []
   
@@ -79,7 +70,7 @@ function getTreePositionsForBlock(
   
   if (treeCount === 1) {
     // Randomly select one of the 4 positions
-    const offset = TREE_OFFSETS[Math.floor(Math.random() * TREE_OFFSETS.length)]
+    const offset = random.pick(TREE_OFFSETS)
     positions.push({
       x: blockPos.x - 0.5 + offset.x,
       y: blockPos.y + 0.5, // On top of block (block is 1 unit tall)
@@ -87,7 +78,7 @@ function getTreePositionsForBlock(
     })
   } else if (treeCount === 2) {
     // Select one diagonal pair (ensures they're opposite corners)
-    const pair = DIAGONAL_PAIRS[Math.floor(Math.random() * DIAGONAL_PAIRS.length)]
+    const pair = random.pick(DIAGONAL_PAIRS)
     pair.forEach((index) => {
       const offset = TREE_OFFSETS[index]
       positions.push({
@@ -99,7 +90,7 @@ function getTreePositionsForBlock(
   } else if (treeCount === 3) {
     // Select 3 unique positions from the 4 available
     // Shuffle the indices and take the first 3
-    const shuffledIndices = shuffleArray([0, 1, 2, 3])
+    const shuffledIndices = shuffleArray([0, 1, 2, 3], random)
     const selectedIndices = shuffledIndices.slice(0, 3)
     
     selectedIndices.forEach((index) => {
@@ -120,11 +111,18 @@ function getTreePositionsForBlock(
 // Default: 0.6 means 60% of blocks will have trees (reduced from 100%)
 export const TREE_SPAWN_DENSITY = 0.2
 
+// Stream trees draw from for a session seed
+export function getTreeRandom(seed: number): Random {
+  return new Random(seed).split('trees')
+}
+
 /**
  * Generate tree placements for grass blocks with natural variation
+ * Each block draws from its own split of the given stream, so a block always grows the same trees
  */
 export function generateTreePlacements(
   grassBlocks: BlockPosition[],
+  random: Random,
   availableTreeIds: number[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
   spawnDensity: number = TREE_SPAWN_DENSITY
 ): TreePlacement[] {
@@ -133,13 +131,15 @@ export function generateTreePlacements(
   let treeIdIndex = 0
   
   grassBlocks.forEach((block) => {
+    const blockRandom = random.split(`${block.x},${block.y},${block.z}`)
+
     // First check if this block should have trees based on density
-    if (Math.random() > spawnDensity) {
+    if (blockRandom.next() > spawnDensity) {
       return // Skip this block
     }
     
     // Natural variation: 30% chance of 0 trees, 35% chance of 1 tree, 25% chance of 2 trees, 10% chance of 3 trees
-    const rand = Math.random()
+    const rand = blockRandom.next()
     let treeCount = 0
     if (rand < 0.3) {
       treeCount = 0
@@ -155,7 +155,7 @@ export function generateTreePlacements(
     // (Simple implementation: check if adjacent blocks will have trees)
     
     if (treeCount > 0) {
-      const treePositions = getTreePositionsForBlock(block, treeCount)
+      const treePositions = getTreePositionsForBlock(block, treeCount, blockRandom)
       
       treePositions.forEach((pos) => {
         // Create a unique key for this position (rounded to avoid floating point precision issues)
@@ -173,8 +173,8 @@ export function generateTreePlacements(
         placements.push({
           position: [pos.x, pos.y, pos.z],
           treeId,
-          swayOffset: Math.random() * 6, // Random sway offset for animation variation
-          rotation: [0, Math.random() * Math.PI * 2, 0], // Random Y-axis rotation
+          swayOffset: blockRandom.next() * 6, // Random sway offset for animation variation
+          rotation: [0, blockRandom.next() * Math.PI * 2, 0], // Random Y-axis rotation
         })
       })
     }
@@ -0,0 +1,423 @@
+import { Grid } from './Grid'
+import { type MaterialType, MATERIAL_TYPES, MATERIALS } from './materials'
+import {
+  type BoardSize,
+  type GameSnapshot,
+  type TetrominoType,
+  type BuiltinTetrominoType,
+  type ShapeDefinition,
+  BUILTIN_TETROMINO_TYPES,
+  SHAPE_GRID_SIZE,
+  createShapeDefinition,
+  QUEUE_GENERATOR_IDS,
+  createQueueItem,
+  getBlockPlacementFailureReason,
+  getSupportDistances,
+  DISCARD_COST,
+} from '../engine'
+
+// Compact, URL-safe share codes for worlds (board, queue and random seed)
+// The hold slot and discard charge are not shared: imported worlds start with them reset
+//
+// Layout (before base64url): a version byte followed by unsigned varints
+//   seed, queue random state,
+//   board width, board depth,
+//   custom shape count and shapes, each as name byte length, UTF-8 name,
+//   material index, block count and block x/z (zigzag),
+//   queue length, queue types,
+//   queue generator index, pending length, pending types,
+//   bounding box min x/y/z (zigzag) and size x/y/z,
+//   then runs over the bounding box (x fastest, then z, then y) as
+//   (material code, run length) pairs where code 0 is empty and N is MATERIAL_TYPES[N - 1]
+// Types are a BUILTIN_TETROMINO_TYPES index times 2, or a custom shape index (in this code) times 2 plus 1
+// Type, material and generator indexes are positional, so only ever append to
+// BUILTIN_TETROMINO_TYPES / MATERIAL_TYPES / QUEUE_GENERATORS
+
+// Codes of any other version are refused
+export const WORLD_CODE_VERSION = 1
+export const WORLD_URL_PARAM = 'world'
+
+// Refuse to expand codes describing absurdly large volumes
+const MAX_WORLD_VOLUME = 1_000_000
+const MAX_WORLD_BLOCKS = 50_000
+const MAX_BOARD_SIZE = 64
+const MAX_QUEUE_LENGTH = 32
+const MAX_CUSTOM_SHAPES = 32
+
+function writeVarint(bytes: number[], value: number): void {
+  let remaining = value
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80)
+    remaining = Math.floor(remaining / 0x80)
+  }
+  bytes.push(remaining)
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+}
+
+function toBase64Url(bytes: number[]): string {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(code)) {
+    throw new Error('World code contains invalid characters')
+  }
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/')
+  let binary: string
+  try {
+    binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  } catch {
+    throw new Error('World code is not valid base64')
+  }
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+// Sequential reader that reports truncated input instead of reading garbage
+class ByteReader {
+  private offset = 0
+  private bytes: Uint8Array
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  readByte(): number {
+    if (this.done) {
+      throw new Error('World code is truncated')
+    }
+    return this.bytes[this.offset++]
+  }
+
+  readVarint(): number {
+    let value = 0
+    let multiplier = 1
+    for (;;) {
+      const byte = this.readByte()
+      value += (byte & 0x7f) * multiplier
+      if (byte < 0x80) return value
+      multiplier *= 0x80
+      if (multiplier > Number.MAX_SAFE_INTEGER) {
+        throw new Error('World code contains an oversized number')
+      }
+    }
+  }
+}
+
+function writeTetrominoList(bytes: number[], types: TetrominoType[], customShapes: ShapeDefinition[]): void {
+  writeVarint(bytes, types.length)
+  types.forEach((type) => {
+    const builtinIndex = BUILTIN_TETROMINO_TYPES.indexOf(type as BuiltinTetrominoType)
+    if (builtinIndex >= 0) {
+      writeVarint(bytes, builtinIndex * 2)
+      return
+    }
+    const customIndex = customShapes.findIndex((shape) => shape.id === type)
+    if (customIndex < 0) {
+      throw new Error(`World has no custom shape for queued tetromino "${type}"`)
+    }
+    writeVarint(bytes, customIndex * 2 + 1)
+  })
+}
+
+function readTetrominoList(reader: ByteReader, label: string, customShapes: ShapeDefinition[]): TetrominoType[] {
+  const length = reader.readVarint()
+  if (length > MAX_QUEUE_LENGTH) {
+    throw new Error(`World code ${label} is too long (${length})`)
+  }
+  return Array.from({ length }, () => {
+    const value = reader.readVarint()
+    if (value % 2 === 1) {
+      const shape = customShapes[(value - 1) / 2]
+      if (!shape) {
+        throw new Error(`World code has an unknown custom shape #${(value - 1) / 2}`)
+      }
+      return shape.id
+    }
+    const index = value / 2
+    const type = BUILTIN_TETROMINO_TYPES[index]
+    if (!type) {
+      throw new Error(`World code has an unknown tetromino #${index}`)
+    }
+    return type
+  })
+}
+
+function writeShape(bytes: number[], shape: ShapeDefinition): void {
+  const name = new TextEncoder().encode(shape.label)
+  writeVarint(bytes, name.length)
+  bytes.push(...name)
+  writeVarint(bytes, MATERIAL_TYPES.indexOf(shape.material))
+  writeVarint(bytes, shape.blocks.length)
+  shape.blocks.forEach(([x, , z]) => {
+    writeVarint(bytes, zigzag(x))
+    writeVarint(bytes, zigzag(z))
+  })
+}
+
+function readShape(reader: ByteReader): ShapeDefinition {
+  const nameLength = reader.readVarint()
+  const name = Uint8Array.from({ length: nameLength }, () => reader.readByte())
+  const material = MATERIAL_TYPES[reader.readVarint()]
+  const blockCount = reader.readVarint()
+  if (blockCount > SHAPE_GRID_SIZE * SHAPE_GRID_SIZE) {
+    throw new Error('World code has a custom shape with too many blocks')
+  }
+  const cells = Array.from({ length: blockCount }, (): [number, number] => [
+    unzigzag(reader.readVarint()),
+    unzigzag(reader.readVarint()),
+  ])
+  try {
+    return createShapeDefinition(new TextDecoder().decode(name), material, cells)
+  } catch (error) {
+    throw new Error(`World code has an invalid custom shape: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+export function encodeWorld(world: GameSnapshot): string {
+  const bytes: number[] = [WORLD_CODE_VERSION]
+  writeVarint(bytes, world.seed)
+  writeVarint(bytes, world.queueRandomState)
+  writeVarint(bytes, world.boardSize.width)
+  writeVarint(bytes, world.boardSize.depth)
+
+  // Only the custom shapes the queue refers to travel with the code
+  const queueTypes = [...world.queue.map((item) => item.type), ...world.queuePending]
+  const customShapes = world.customShapes.filter((shape) => queueTypes.includes(shape.id))
+  writeVarint(bytes, customShapes.length)
+  customShapes.forEach((shape) => writeShape(bytes, shape))
+
+  writeTetrominoList(bytes, world.queue.map((item) => item.type), customShapes)
+  writeVarint(bytes, QUEUE_GENERATOR_IDS.indexOf(world.queueGenerator))
+  writeTetrominoList(bytes, world.queuePending, customShapes)
+
+  const positions = Array.from(world.boardState.keys(), Grid.fromKey)
+  const min = [0, 1, 2].map((axis) => Math.min(...positions.map((p) => p[axis])))
+  const max = [0, 1, 2].map((axis) => Math.max(...positions.map((p) => p[axis])))
+  const size = positions.length > 0 ? max.map((value, axis) => value - min[axis] + 1) : [0, 0, 0]
+  if (positions.length === 0) min.fill(0)
+
+  min.forEach((value) => writeVarint(bytes, zigzag(value)))
+  size.forEach((value) => writeVarint(bytes, value))
+
+  // Run-length encode the bounding box
+  let runCode = -1
+  let runLength = 0
+  const flushRun = () => {
+    if (runLength === 0) return
+    writeVarint(bytes, runCode)
+    writeVarint(bytes, runLength)
+  }
+
+  for (let y = 0; y < size[1]; y++) {
+    for (let z = 0; z < size[2]; z++) {
+      for (let x = 0; x < size[0]; x++) {
+        const material = world.boardState.get(Grid.getKey(min[0] + x, min[1] + y, min[2] + z))
+        const code = material ? MATERIAL_TYPES.indexOf(material) + 1 : 0
+        if (code === runCode) {
+          runLength++
+        } else {
+          flushRun()
+          runCode = code
+          runLength = 1
+        }
+      }
+    }
+  }
+  flushRun()
+
+  return toBase64Url(bytes)
+}
+
+// Check a decoded board against the placement rules every block on a real board satisfies
+function validateBoard(boardState: Map<string, MaterialType>): void {
+  // Terrain shapes vary, but every world has some ground to build on
+  const hasGround = Array.from(boardState.keys()).some((key) => Grid.fromKey(key)[1] === 0)
+  if (!hasGround) {
+    throw new Error('World has no ground blocks')
+  }
+
+  // Load paths are found once for the whole board, so checking stays linear in the block count
+  const distances = getSupportDistances(boardState)
+  for (const [key, material] of boardState) {
+    const [x, y, z] = Grid.fromKey(key)
+    const { label, support } = MATERIALS[material]
+    const below = boardState.get(Grid.getKey(x, y - 1, z))
+
+    // Falling blocks pass the placement rules anywhere, but on a real board they have already landed
+    if (support.falls) {
+      if (y > 0 && below === undefined) {
+        throw new Error(`Invalid block at ${key}: ${label} has nothing below it`)
+      }
+      continue
+    }
+
+    const isResting = below !== undefined && (support.allowedBelow === 'any' || support.allowedBelow.includes(below))
+    const isHanging = below === undefined && support.maxSpan > 0 && distances.has(key)
+    if (isResting || (y === 0 && support.groundLevel) || isHanging) continue
+
+    // Explain the first broken block as if it were placed last on the rest of the board
+    // (a fresh board: support distances are cached by board, see engine/integrity)
+    const others = new Map(boardState)
+    others.delete(key)
+    const reason = getBlockPlacementFailureReason([x, y, z], material, others) ?? `${label} has no support`
+    throw new Error(`Invalid block at ${key}: ${reason}`)
+  }
+}
+
+// Accept either a bare code or a pasted share link
+function extractWorldCode(input: string): string {
+  const trimmed = input.trim()
+  if (!trimmed.includes(`${WORLD_URL_PARAM}=`)) return trimmed
+  const query = trimmed.slice(trimmed.indexOf('?') + 1)
+  return new URLSearchParams(query).get(WORLD_URL_PARAM) ?? trimmed
+}
+
+// Decode and validate a share code, throwing an Error that explains what is wrong
+export function decodeWorld(input: string): GameSnapshot {
+  const code = extractWorldCode(input)
+  if (code === '') {
+    throw new Error('World code is empty')
+  }
+  const reader = new ByteReader(fromBase64Url(code))
+
+  const version = reader.readByte()
+  if (version !== WORLD_CODE_VERSION) {
+    throw new Error(`Unsupported world code version ${version}`)
+  }
+
+  const seed = reader.readVarint()
+  const queueRandomState = reader.readVarint()
+  if (seed > 0xffffffff || queueRandomState > 0xffffffff) {
+    throw new Error('World code has an invalid random seed')
+  }
+
+  const boardSize: BoardSize = { width: reader.readVarint(), depth: reader.readVarint() }
+  if ([boardSize.width, boardSize.depth].some((side) => side < 1 || side > MAX_BOARD_SIZE)) {
+    throw new Error('World code has an invalid board size')
+  }
+
+  const shapeCount = reader.readVarint()
+  if (shapeCount > MAX_CUSTOM_SHAPES) {
+    throw new Error(`World code has too many custom shapes (${shapeCount})`)
+  }
+  const customShapes = Array.from({ length: shapeCount }, () => readShape(reader))
+
+  const queueTypes = readTetrominoList(reader, 'queue', customShapes)
+  if (queueTypes.length === 0) {
+    throw new Error('World code has an empty queue')
+  }
+
+  const generatorIndex = reader.readVarint()
+  const queueGenerator = QUEUE_GENERATOR_IDS[generatorIndex]
+  if (!queueGenerator) {
+    throw new Error(`World code has an unknown queue generator #${generatorIndex}`)
+  }
+  const queuePending = readTetrominoList(reader, 'pending queue', customShapes)
+
+  const min = [0, 1, 2].map(() => unzigzag(reader.readVarint()))
+  const size = [0, 1, 2].map(() => reader.readVarint())
+  const volume = size[0] * size[1] * size[2]
+  if (volume > MAX_WORLD_VOLUME) {
+    throw new Error('World code describes a world that is too large')
+  }
+  if (min[1] < 0) {
+    throw new Error('World code has blocks below board level')
+  }
+
+  const boardState = new Map<string, MaterialType>()
+  let cell = 0
+  while (cell < volume) {
+    const materialCode = reader.readVarint()
+    const runLength = reader.readVarint()
+    if (runLength === 0 || cell + runLength > volume) {
+      throw new Error('World code has a malformed block run')
+    }
+    if (materialCode > MATERIAL_TYPES.length) {
+      throw new Error(`World code has an unknown material #${materialCode}`)
+    }
+
+    if (materialCode > 0) {
+      if (boardState.size + runLength > MAX_WORLD_BLOCKS) {
+        throw new Error('World code has too many blocks')
+      }
+      const material = MATERIAL_TYPES[materialCode - 1]
+      for (let i = cell; i < cell + runLength; i++) {
+        const x = i % size[0]
+        const z = Math.floor(i / size[0]) % size[2]
+        const y = Math.floor(i / (size[0] * size[2]))
+        boardState.set(Grid.getKey(min[0] + x, min[1] + y, min[2] + z), material)
+      }
+    }
+    cell += runLength
+  }
+  if (!reader.done) {
+    throw new Error('World code has unexpected trailing data')
+  }
+
+  validateBoard(boardState)
+
+  let highestY = 0
+  boardState.forEach((_, key) => {
+    highestY = Math.max(highestY, Grid.fromKey(key)[1])
+  })
+
+  return {
+    boardSize,
+    boardState,
+    highestY,
+    queue: queueTypes.map(createQueueItem),
+    seed,
+    queueRandomState,
+    queueGenerator,
+    queuePending,
+    customShapes,
+    heldPiece: null,
+    discardCharge: DISCARD_COST,
+  }
+}
+
+// Shareable link to the current page with the world code attached
+export function getWorldLink(code: string): string {
+  const url = new URL(window.location.href)
+  url.searchParams.set(WORLD_URL_PARAM, code)
+  return url.toString()
+}
+
+export function readWorldCodeFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get(WORLD_URL_PARAM)
+}
+
+// World shared through the ?world= parameter, if any (with the reason it was rejected)
+export function readWorldFromUrl(): { world: GameSnapshot | null; error: string | null } {
+  const code = readWorldCodeFromUrl()
+  if (code === null) return { world: null, error: null }
+  try {
+    return { world: decodeWorld(code), error: null }
+  } catch (error) {
+    console.warn('[worldCode] Ignoring invalid world in URL', error)
+    return { world: null, error: `Shared link: ${error instanceof Error ? error.message : String(error)}` }
+  }
+}
+
+// Drop the imported code from the address bar so a reload resumes the autosave instead
+export function clearWorldCodeFromUrl(): void {
+  const url = new URL(window.location.href)
+  if (!url.searchParams.has(WORLD_URL_PARAM)) return
+  url.searchParams.delete(WORLD_URL_PARAM)
+  window.history.replaceState(null, '', url.toString())
+}